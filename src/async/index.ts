@@ -2,5 +2,62 @@ export { AsyncScheduler } from "./src/AsyncScheduler";
 export type {
   AsyncSchedulerOptions,
   AddTaskOptions,
+  AgingOptions,
+  CacheOptions,
+  DependencyFailurePolicy,
+  DrainOptions,
+  EventType,
+  MapFn,
+  MapOptions,
+  OverlapPolicy,
+  PersistenceOptions,
+  QueueOptions,
+  QueueStats,
+  SchedulerEvent,
+  SchedulerEvents,
+  SchedulerStats,
+  SettledState,
+  StartOptions,
   Task,
+  TaskContext,
+  TaskFn,
+  TaskHandler,
+  TaskHandle,
+  TaskSettledResult,
+  TaskState,
 } from "./src/AsyncScheduler";
+export { computeRetryDelay, resolveRetryPolicy } from "./src/retry";
+export type {
+  BackoffStrategy,
+  ResolvedRetryPolicy,
+  RetryPolicy,
+} from "./src/retry";
+export { TokenBucket } from "./src/RateLimiter";
+export type { RateLimitOptions } from "./src/RateLimiter";
+export { PriorityQueue } from "./src/PriorityQueue";
+export { TypedEmitter } from "./src/TypedEmitter";
+export type {
+  EmittedEvent,
+  EventMap,
+  EventStreamOptions,
+  Listener,
+} from "./src/TypedEmitter";
+export { nextCronDate, parseCron } from "./src/cron";
+export type { CronSchedule } from "./src/cron";
+export { WorkerPool } from "./src/worker/WorkerPool";
+export { NodeWorkerPool } from "./src/worker/NodeWorkerPool";
+export { BrowserWorkerPool } from "./src/worker/BrowserWorkerPool";
+export type { WorkerPoolOptions, WorkerTaskSpec } from "./src/worker/type";
+export { toAsyncIterator, toReadableStream } from "./src/stream";
+export type { IterableSource } from "./src/stream";
+export { MemoryCacheStore } from "./src/CacheStore";
+export type { CacheEntry, CacheStore } from "./src/CacheStore";
+export { MemorySnapshotStorage } from "./src/snapshot/MemorySnapshotStorage";
+export { FileSnapshotStorage } from "./src/snapshot/FileSnapshotStorage";
+export { LocalStorageSnapshotStorage } from "./src/snapshot/LocalStorageSnapshotStorage";
+export { IndexedDBSnapshotStorage } from "./src/snapshot/IndexedDBSnapshotStorage";
+export type {
+  SchedulerSnapshot,
+  SnapshotStorage,
+  TaskSnapshot,
+} from "./src/snapshot/type";
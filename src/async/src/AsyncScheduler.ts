@@ -1,69 +1,496 @@
 import { v4 as uuidv4 } from "uuid";
+import { MemoryCacheStore, type CacheStore } from "./CacheStore";
+import { nextCronDate, parseCron, type CronSchedule } from "./cron";
+import { PriorityQueue } from "./PriorityQueue";
+import { TokenBucket, type RateLimitOptions } from "./RateLimiter";
+import type {
+  SchedulerSnapshot,
+  SnapshotStorage,
+  TaskSnapshot,
+} from "./snapshot/type";
+import { toAsyncIterator, type IterableSource } from "./stream";
+import {
+  computeRetryDelay,
+  resolveRetryPolicy,
+  type ResolvedRetryPolicy,
+  type RetryPolicy,
+} from "./retry";
+import {
+  TypedEmitter,
+  type EmittedEvent,
+  type EventStreamOptions,
+  type Listener,
+} from "./TypedEmitter";
+import type { WorkerTaskSpec } from "./worker/type";
+import type { WorkerPool } from "./worker/WorkerPool";
 
 export interface AsyncSchedulerOptions {
   concurrency?: number; // 最大并发任务数
-  retry?: number; // 最多重试次数
+  retry?: number | RetryPolicy; // 最多重试次数或重试策略
   timeout?: number; // 单个任务超时时间
   autoStart?: boolean; // 是否在添加任务后自动启动
+  dependencyFailure?: DependencyFailurePolicy; // 依赖失败或取消时的处理策略
+  rateLimit?: RateLimitOptions; // 全局限流（每个时间窗口允许启动的任务数）
+  keyedRateLimits?: Record<string, RateLimitOptions>; // 按 rateLimitKey 分组的限流
+  aging?: AgingOptions; // 优先级老化，防止低优先级任务饿死
+  workerPool?: WorkerPool; // addWorkerTask 使用的 worker 池
+  cache?: CacheOptions; // 按 key 缓存成功结果
+  queues?: Record<string, QueueOptions>; // 命名队列配置，未配置的队列权重为 1、不限并发
+  persistence?: PersistenceOptions; // 具名任务的快照存储
+  // 是否保留已结束的任务及其结果（start() 的结果、asyncResults、按 id 依赖），默认 true；
+  // 长期运行、不关心结果的调度器设为 false，任务结束且没有未结束的依赖方后即释放
+  retain?: boolean;
 }
 
+export interface PersistenceOptions {
+  storage: SnapshotStorage;
+  autoSave?: boolean; // 具名任务添加、重试或结束后自动保存快照（默认 true）
+}
+
+export interface QueueOptions {
+  weight?: number; // 公平调度权重（默认 1），权重为 2 的队列获得的执行机会是权重 1 的两倍
+  concurrency?: number; // 此队列最多同时运行的任务数（默认只受全局并发限制）
+}
+
+export interface CacheOptions {
+  ttl: number; // 缓存有效期（ms），0 表示不缓存
+  store?: CacheStore; // 自定义缓存存储（默认内存）
+}
+
+// 任务每排队 interval 毫秒，有效优先级提升 step（默认 1）
+export interface AgingOptions {
+  interval: number;
+  step?: number;
+}
+
+/**
+ * 依赖失败（或被取消）时，依赖它的任务如何处理
+ * - fail：依赖方直接失败，触发 error 事件
+ * - skip：依赖方被跳过（状态为 cancelled），触发 skip 事件
+ * - continue：依赖全部结束后照常执行，失败依赖的结果为 undefined
+ */
+export type DependencyFailurePolicy = "fail" | "skip" | "continue";
+
+/**
+ * 周期任务到点时上一次执行尚未结束的处理方式
+ * - skip：跳过本次
+ * - queue：等上一次结束后立即补跑一次（最多积压一次）
+ * - allow：照常加入队列，允许多次执行重叠
+ */
+export type OverlapPolicy = "skip" | "queue" | "allow";
+
 export interface AddTaskOptions {
+  id?: string; // 自定义任务 id，可用于在任务添加前声明依赖
   priority?: number; // 优先级（数值越大优先级越高）
-  retry?: number; // 此任务的重试次数（可覆盖全局）
+  retry?: number | RetryPolicy; // 此任务的重试次数或策略（可覆盖全局）
   timeout?: number; // 此任务的超时（可覆盖全局）
   signal?: AbortSignal; // 可取消任务
-  dependsOn?: Task[] | []; // 依赖任务
+  dependsOn?: (TaskHandle | string)[]; // 依赖任务（任务句柄或任务 id）
+  dependencyFailure?: DependencyFailurePolicy; // 此任务的依赖失败策略（可覆盖全局）
+  rateLimitKey?: string; // 限流分组，对应 keyedRateLimits 中的配置
+  delay?: number; // 延迟多少毫秒后再进入队列
+  runAt?: Date | number; // 在指定时间进入队列
+  every?: number | string; // 周期执行：间隔毫秒数或 cron 表达式
+  overlap?: OverlapPolicy; // 周期任务的重叠策略（默认 skip）
+  key?: string; // 去重键：相同 key 的任务排队或运行中时共享同一次执行
+  cacheTtl?: number; // 此任务结果的缓存有效期（可覆盖全局，0 表示不读写缓存）
+  queue?: string; // 所属的命名队列（默认 "default"）
+}
+
+// 任务执行时的上下文
+export interface TaskContext {
+  id: string;
+  attempt: number;
+  deps: any[]; // 依赖任务的结果，顺序与 dependsOn 一致
+  progress: (value: any) => void; // 上报进度，触发 progress 事件
 }
 
+export type TaskFn = (
+  signal: AbortSignal,
+  context: TaskContext
+) => Promise<any>;
+
+// registerTask 注册的处理函数，payload 需要可 JSON 序列化才能被持久化
+export type TaskHandler<P = any> = (
+  payload: P,
+  signal: AbortSignal,
+  context: TaskContext
+) => Promise<any>;
+
+export type TaskState =
+  | "scheduled" // 等待延迟 / 定时到点，或周期任务等待下一次触发
+  | "waiting" // 等待依赖完成
+  | "queued"
+  | "running"
+  | "retrying" // 失败后等待重试
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
 export interface Task {
   id: string;
-  fn: (signal?: AbortSignal) => Promise<any>;
-  options: Required<AddTaskOptions>;
+  fn: TaskFn;
+  options: Required<
+    Omit<
+      AddTaskOptions,
+      | "dependsOn"
+      | "retry"
+      | "rateLimitKey"
+      | "delay"
+      | "runAt"
+      | "every"
+      | "key"
+    >
+  > & {
+    dependsOn: string[];
+    retry: ResolvedRetryPolicy;
+    rateLimitKey?: string;
+    every?: number | string;
+    key?: string;
+  };
   attempt: number;
   controller: AbortController;
+  state: TaskState;
+  result?: any;
+  error?: any;
+  progress?: any; // 最近一次上报的进度
+  promise: Promise<any>; // 任务最终结果，失败或取消时 reject
+  createdAt: number;
+  enqueuedAt?: number; // 首次进入队列的时间，用于优先级老化
+  seq: number; // 入队序号，保证同优先级先进先出
+  startedAt?: number; // 首次开始执行的时间
+  finishedAt?: number;
+  name?: string; // 具名任务的处理函数名
+  payload?: unknown; // 具名任务的参数
+  runAt?: number; // 下一次定时触发的时间
+}
+
+// addTask 返回的任务句柄，属性会随任务执行实时更新
+export type TaskHandle = Readonly<
+  Pick<
+    Task,
+    | "id"
+    | "state"
+    | "attempt"
+    | "result"
+    | "error"
+    | "progress"
+    | "promise"
+    | "createdAt"
+    | "startedAt"
+    | "finishedAt"
+  >
+>;
+
+export type SettledState = "succeeded" | "failed" | "cancelled";
+
+// start() 返回的单个任务结果
+export interface TaskSettledResult {
+  id: string;
+  state: SettledState;
+  value?: any;
+  error?: any;
+}
+
+export interface MapOptions
+  extends Pick<
+    AddTaskOptions,
+    "priority" | "retry" | "timeout" | "rateLimitKey" | "queue"
+  > {
+  ordered?: boolean; // 按输入顺序输出（默认 true），false 时按完成顺序输出
+  concurrency?: number; // 已拉取但未输出的最大元素数（默认等于调度器并发数）
+  signal?: AbortSignal; // 中止整个 map，同时取消在途任务并关闭数据源
+}
+
+export type MapFn<T, R> = (
+  item: T,
+  signal: AbortSignal,
+  context: TaskContext & { index: number }
+) => Promise<R>;
+
+export interface DrainOptions {
+  timeout?: number; // 超过该时间（ms）仍未结束的任务会被取消，默认一直等待
+}
+
+export interface StartOptions {
+  keyed?: boolean; // 为 true 时以任务 id 为键返回结果，否则按添加顺序返回数组
+}
+
+// 事件名 -> 回调参数
+export interface SchedulerEvents {
+  start: [id: string];
+  success: [id: string, result: any];
+  error: [id: string, error: any];
+  retry: [id: string, attempt: number, error: any, delay: number];
+  skip: [id: string, depId: string];
+  throttled: [id: string, key: string | null, wait: number];
+  progress: [id: string, progress: any];
+  cancel: [id: string, reason: any];
+  timeout: [id: string, timeout: number];
+  cacheHit: [id: string, key: string]; // 命中缓存，任务未执行直接成功
+  persistError: [error: any]; // 自动保存快照失败
+  empty: []; // 队列被取空（可能仍有任务在运行）
+  idle: []; // 没有运行中、排队中和等待重试的任务
+  paused: [];
+  resumed: [];
+  finish: [];
 }
 
-export type EventType = "start" | "success" | "error" | "retry" | "finish";
+export type EventType = keyof SchedulerEvents & string;
+
+export type SchedulerEvent = EmittedEvent<SchedulerEvents>;
+
+export interface SchedulerStats {
+  total: number; // 已添加的任务数
+  scheduled: number; // 等待定时触发的任务数（含周期任务）
+  waiting: number; // 等待依赖的任务数
+  queued: number; // 排队中的任务数
+  running: number;
+  retrying: number; // 等待退避后重试的任务数
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  throttled: number; // 排队任务中因限流被挂起的数量
+  // 排队任务当前被什么挡住：并发已满、限流，或没有被挡住
+  blockedBy: "concurrency" | "rateLimit" | null;
+  throughput: number; // 每秒结束的任务数（自首个任务开始执行起）
+  queues: Record<string, QueueStats>; // 各命名队列的状态
+}
+
+export interface QueueStats {
+  weight: number;
+  concurrency: number; // 未设置上限时为 Infinity
+  paused: boolean;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+}
+
+const SETTLED_STATES: TaskState[] = ["succeeded", "failed", "cancelled"];
+
+const MAX_TIMEOUT = 2 ** 31 - 1; // setTimeout 支持的最大延迟
+
+const DEFAULT_QUEUE = "default";
+
+// 命名队列：各自维护优先级堆，按权重分享全局并发
+type NamedQueue = {
+  weight: number;
+  concurrency: number;
+  paused: boolean;
+  pass: number; // 虚拟时间，每取出一个任务前进 1 / weight，值最小的队列先被调度
+  running: number;
+  heap: PriorityQueue<Task>;
+  counts: { succeeded: number; failed: number; cancelled: number };
+};
+
+// 周期任务的运行状态
+type Recurrence = {
+  cron: CronSchedule | null;
+  runs: number;
+  active: Set<TaskHandle>; // 尚未结束的执行
+  backlog: boolean; // overlap 为 queue 时是否有待补跑的一次
+};
+
+// 具名任务的注册信息
+type RegisteredTask = {
+  handler: TaskHandler;
+  defaults?: AddTaskOptions; // 此类任务的默认选项，如重试策略、超时
+};
+
+// 创建任务时附带的具名任务信息
+type NamedInfo = {
+  name: string;
+  payload: unknown;
+  attempt: number;
+};
+
+function toKeyedResults(
+  results: TaskSettledResult[]
+): Record<string, TaskSettledResult> {
+  const keyed: Record<string, TaskSettledResult> = {};
+  for (const result of results) {
+    keyed[result.id] = result;
+  }
+  return keyed;
+}
+
+type Settler = {
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+};
 
 /**
  * 异步任务调度器
  */
 export class AsyncScheduler {
   private _concurrency: number;
-  private _retry: number;
+  private _retry: ResolvedRetryPolicy;
   private _timeout: number;
   private _autoStart: boolean;
+  private _retain: boolean;
+  private _dependencyFailure: DependencyFailurePolicy;
 
   private _running = 0; // 当前运行中的任务数
-  private _taskQuene: Task[] = []; // 等待队列
+  private _queues: Map<string, NamedQueue> = new Map(); // 队列名 -> 等待队列
+  private _queueOptions: Record<string, QueueOptions>;
+  private _virtualTime = 0; // 最近一次被调度的队列的虚拟时间
+  private _agingRate: number; // 每毫秒提升的优先级
+  private _workerPool: WorkerPool | null;
+  private _seq = 0;
+  private _retrySeq = 0;
   private _tasks: Map<string, Task> = new Map(); //所有任务
+  private _waiting: Set<Task> = new Set(); // 等待依赖完成的任务
+  private _dependents: Map<string, Set<string>> = new Map(); // 依赖 id -> 依赖它的任务 id
+  private _settlers: Map<string, Settler> = new Map(); // 任务 promise 的 resolve/reject
+  private _transient: Set<string> = new Set(); // map 产生的任务，输出后即释放，不计入结果
+  private _retryTimers: Map<Task, ReturnType<typeof setTimeout>> = new Map(); // 等待退避的重试任务
+  private _scheduleTimers: Map<Task, ReturnType<typeof setTimeout>> = new Map(); // 延迟、定时与周期任务
+  private _recurrences: Map<Task, Recurrence> = new Map();
+
+  // 去重与缓存
+  private _inflight: Map<string, Task> = new Map(); // key -> 尚未结束的任务
+  private _cacheStore: CacheStore;
+  private _cacheTtl: number;
+
+  // 限流
+  private _rateLimiter: TokenBucket | null;
+  private _keyedRateLimits: Record<string, RateLimitOptions>;
+  private _keyedLimiters: Map<string, TokenBucket> = new Map();
+  private _throttled: Set<Task> = new Set(); // 因限流被挂起的任务
+  private _rateLimitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 具名任务与持久化
+  private _registry: Map<string, RegisteredTask> = new Map();
+  private _storage: SnapshotStorage | null;
+  private _autoSave: boolean;
+  private _saveQueued = false;
+  private _saving: Promise<void> = Promise.resolve();
 
-  private _events: Map<EventType, Function[]> = new Map();
+  private _emitter = new TypedEmitter<SchedulerEvents>();
+
+  // 统计
+  private _counts = { succeeded: 0, failed: 0, cancelled: 0 };
+  private _firstStartAt: number | null = null;
 
   // 标志位
   private _paused = false;
   private _started: any;
   private _completed = false;
-  private _onFinishPromise: Promise<any[]> | null = null;
+  private _idle = false; // 避免在同一次空闲时重复触发 idle / finish
+  private _draining = false; // drain() 期间拒绝新任务
+  private _closed = false; // close() 之后永久拒绝新任务
+  private _onFinishPromise: Promise<TaskSettledResult[]> | null = null;
+  private _resolveStart: ((results: TaskSettledResult[]) => void) | null = null;
 
   // 全局异步控制器
   private _globalAbortController = new AbortController();
 
-  // 所有异步函数结果
+  // 所有成功任务的结果（按完成顺序）
   public asyncResults: any[] = [];
 
   constructor(options?: AsyncSchedulerOptions) {
     this._concurrency = options?.concurrency ?? 5;
-    this._retry = options?.retry ?? 0;
+    this._retry = resolveRetryPolicy(options?.retry);
     this._timeout = options?.timeout ?? 0;
     this._autoStart = options?.autoStart ?? false;
+    this._retain = options?.retain ?? true;
+    this._dependencyFailure = options?.dependencyFailure ?? "fail";
+    this._rateLimiter = options?.rateLimit
+      ? new TokenBucket(options.rateLimit)
+      : null;
+    this._keyedRateLimits = options?.keyedRateLimits ?? {};
+    this._agingRate = options?.aging
+      ? (options.aging.step ?? 1) / options.aging.interval
+      : 0;
+    this._queueOptions = options?.queues ?? {};
+    for (const name of [DEFAULT_QUEUE, ...Object.keys(this._queueOptions)]) {
+      this._getQueue(name);
+    }
+    this._workerPool = options?.workerPool ?? null;
+    this._cacheStore = options?.cache?.store ?? new MemoryCacheStore();
+    this._cacheTtl = options?.cache?.ttl ?? 0;
+    this._storage = options?.persistence?.storage ?? null;
+    this._autoSave = options?.persistence?.autoSave ?? true;
   }
 
-  public addTask(
-    fn: (signal?: AbortSignal) => Promise<any>,
+  public addTask(fn: TaskFn, options?: AddTaskOptions): TaskHandle {
+    return this._createTask(fn, options);
+  }
+
+  /**
+   * 注册具名任务的处理函数
+   *
+   * 具名任务只记录名称与 payload，因此可以保存为快照，并在进程重启后恢复执行
+   */
+  public registerTask<P = any>(
+    name: string,
+    handler: TaskHandler<P>,
+    defaults?: AddTaskOptions
+  ) {
+    this._registry.set(name, { handler, defaults });
+  }
+
+  // 添加已注册的具名任务
+  public addNamedTask<P = any>(
+    name: string,
+    payload: P,
     options?: AddTaskOptions
-  ): Task {
-    const id = uuidv4();
+  ): TaskHandle {
+    return this._addNamedTask({ name, payload, attempt: 0 }, options);
+  }
+
+  private _addNamedTask(named: NamedInfo, options?: AddTaskOptions) {
+    const registered = this._registry.get(named.name);
+    if (!registered) {
+      throw new Error(`Task "${named.name}" is not registered`);
+    }
+    const fn: TaskFn = (signal, context) =>
+      registered.handler(named.payload, signal, context);
+    return this._createTask(fn, { ...registered.defaults, ...options }, named);
+  }
+
+  private _createTask(
+    fn: TaskFn,
+    options?: AddTaskOptions,
+    named?: NamedInfo
+  ): TaskHandle {
+    if (this._closed || this._draining) {
+      throw new Error(
+        `Scheduler is ${this._closed ? "closed" : "draining"}, cannot add tasks`
+      );
+    }
+
+    // 相同 key 的任务尚未结束：共享同一次执行，必要时提升其优先级
+    const key = options?.key;
+    const inflight = key != null ? this._inflight.get(key) : undefined;
+    if (inflight) {
+      const priority = options?.priority ?? 0;
+      const { heap } = this._getQueue(inflight.options.queue);
+      if (priority > inflight.options.priority && heap.remove(inflight)) {
+        inflight.options.priority = priority;
+        heap.push(inflight);
+      }
+      return inflight;
+    }
+
+    const id = options?.id ?? uuidv4();
+    if (this._tasks.has(id)) {
+      throw new Error(`Task "${id}" already exists`);
+    }
+
+    const dependsOn = (options?.dependsOn ?? []).map((dep) =>
+      typeof dep === "string" ? dep : dep.id
+    );
+    this._assertNoCycle(id, dependsOn);
+
+    const every = options?.every;
+    const cron = typeof every === "string" ? parseCron(every) : null;
+    if (typeof every === "number" && !(every > 0)) {
+      throw new Error("every must be a positive number of milliseconds");
+    }
+
     const controller = new AbortController();
 
     // 将任务自己的 signal、全局 signal 和外部传入的 signal 合并
@@ -72,24 +499,103 @@ export class AsyncScheduler {
       signals.push(options.signal);
     }
 
+    let settler!: Settler;
+    const promise = new Promise<any>((resolve, reject) => {
+      settler = { resolve, reject };
+    });
+    // 未被使用方 await 的失败不应成为未处理的 rejection
+    promise.catch(() => {});
+
     const task: Task = {
       id,
       fn,
-      attempt: 0,
+      attempt: named?.attempt ?? 0,
       controller,
+      state: "queued",
+      promise,
+      createdAt: Date.now(),
+      seq: 0,
       options: {
+        id,
         priority: options?.priority ?? 0,
-        retry: options?.retry ?? 0,
+        retry: resolveRetryPolicy(options?.retry, this._retry),
         timeout: options?.timeout ?? this._timeout,
         // 使用 AbortSignal.any() 来监听任何一个取消信号
         signal: AbortSignal.any(signals),
-        dependsOn: options?.dependsOn ?? [],
+        dependsOn,
+        dependencyFailure:
+          options?.dependencyFailure ?? this._dependencyFailure,
+        rateLimitKey: options?.rateLimitKey,
+        every,
+        overlap: options?.overlap ?? "skip",
+        key,
+        cacheTtl: options?.cacheTtl ?? this._cacheTtl,
+        queue: options?.queue ?? DEFAULT_QUEUE,
       },
+      name: named?.name,
+      payload: named?.payload,
     };
 
     this._tasks.set(id, task);
-    this._taskQuene.push(task);
-    this._taskQuene.sort((a, b) => b.options.priority - a.options.priority);
+    this._settlers.set(id, settler);
+    for (const depId of dependsOn) {
+      if (!this._dependents.has(depId)) this._dependents.set(depId, new Set());
+      this._dependents.get(depId)!.add(id);
+    }
+
+    // 缓存命中：不占用并发槽位，直接以缓存结果成功
+    let cached =
+      key != null && task.options.cacheTtl > 0
+        ? this._cacheStore.get(key)
+        : undefined;
+    // 自定义存储不一定在读取时清理过期条目
+    if (cached && cached.expiresAt <= Date.now()) {
+      this._cacheStore.delete(key!);
+      cached = undefined;
+    }
+    if (cached) {
+      this._settle(task, "succeeded", cached.value);
+      if (this._retain) this.asyncResults.push(cached.value);
+      this._emit("cacheHit", id, key!);
+      this._notifyDependents(task);
+      return task;
+    }
+    if (key != null) this._inflight.set(key, task);
+    if (named) this._persistSoon();
+
+    // 首次触发时间：runAt 优先，其次 delay；周期任务默认在一个周期后首次执行
+    const now = Date.now();
+    let startAt = now;
+    if (options?.runAt != null) {
+      startAt = new Date(options.runAt).getTime();
+    } else if (options?.delay != null) {
+      startAt = now + options.delay;
+    } else if (every != null) {
+      startAt = cron
+        ? nextCronDate(cron, now).getTime()
+        : now + (every as number);
+    }
+
+    if (every != null) {
+      this._recurrences.set(task, {
+        cron,
+        runs: 0,
+        active: new Set(),
+        backlog: false,
+      });
+      task.state = "scheduled";
+      task.runAt = startAt;
+      this._setTimer(task, startAt, () => this._tick(task));
+    } else if (startAt > now) {
+      task.state = "scheduled";
+      task.runAt = startAt;
+      this._setTimer(task, startAt, () => {
+        this._resolveDependencies(task);
+        this._kick();
+      });
+    } else {
+      this._resolveDependencies(task);
+    }
 
     if (this._autoStart) {
       this._runNext();
@@ -98,68 +604,465 @@ export class AsyncScheduler {
     return task;
   }
 
-  public start(): Promise<any[]> {
+  /**
+   * 添加在 worker 中执行的任务，适合 CPU 密集型计算
+   *
+   * 超时或取消时会终止执行该任务的 worker；优先级、重试与事件和普通任务一致
+   */
+  public addWorkerTask(
+    spec: WorkerTaskSpec,
+    options?: AddTaskOptions
+  ): TaskHandle {
+    const pool = this._workerPool;
+    if (!pool) {
+      throw new Error("workerPool must be provided to run worker tasks");
+    }
+    return this.addTask((signal) => pool.run(spec, signal), options);
+  }
+
+  /**
+   * 惰性地从数据源拉取元素并交给调度器执行，以异步迭代器输出结果
+   *
+   * 只有在途元素少于 concurrency 时才会拉取下一个元素；任一元素最终失败时抛出错误，
+   * 提前结束（break、异常、signal 中止）会取消在途任务并调用数据源的 return()
+   */
+  public async *map<T, R>(
+    source: IterableSource<T>,
+    fn: MapFn<T, R>,
+    options?: MapOptions
+  ): AsyncGenerator<R, void, undefined> {
+    const {
+      ordered = true,
+      concurrency = this._concurrency,
+      signal,
+      ...taskOptions
+    } = options ?? {};
+    const limit = Math.max(1, concurrency);
+    const iterator = toAsyncIterator(source);
+    const pending: TaskHandle[] = []; // 按拉取顺序排列，已拉取但尚未输出
+    let exhausted = false;
+    let index = 0;
+
+    const aborted = signal
+      ? new Promise<never>((_, reject) => {
+          const onAbort = () => reject(new Error("Task Cancelled"));
+          if (signal.aborted) onAbort();
+          signal.addEventListener("abort", onAbort, { once: true });
+        })
+      : null;
+    aborted?.catch(() => {});
+    const guard = <V>(promise: Promise<V>) =>
+      aborted ? Promise.race([promise, aborted]) : promise;
+
+    try {
+      while (true) {
+        while (!exhausted && pending.length < limit) {
+          const next = await guard(iterator.next());
+          if (next.done) {
+            exhausted = true;
+            break;
+          }
+
+          const item = next.value;
+          const itemIndex = index++;
+          const task = this.addTask(
+            (taskSignal, context) =>
+              fn(item, taskSignal, { ...context, index: itemIndex }),
+            { ...taskOptions, signal }
+          );
+          this._transient.add(task.id);
+          pending.push(task);
+          this._runNext();
+        }
+
+        if (pending.length === 0) return;
+
+        const task = ordered
+          ? pending[0]
+          : await guard(
+              Promise.race(
+                pending.map((t) =>
+                  t.promise.then(
+                    () => t,
+                    () => t
+                  )
+                )
+              )
+            );
+        const value = await guard(task.promise);
+
+        pending.splice(pending.indexOf(task), 1);
+        this._forget(task.id);
+        yield value;
+      }
+    } finally {
+      for (const task of pending) {
+        this.cancelTask(task.id);
+        this._forget(task.id);
+      }
+      if (!exhausted) await iterator.return?.();
+    }
+  }
+
+  // 释放 map 产生的任务，避免长时间运行时任务表无限增长
+  private _forget(id: string) {
+    this._transient.delete(id);
+    this._tasks.delete(id);
+    this._dependents.delete(id);
+  }
+
+  /**
+   * 开始执行任务队列，所有任务结束后返回每个任务的结果（包括失败与取消）
+   */
+  public start(
+    options: StartOptions & { keyed: true }
+  ): Promise<Record<string, TaskSettledResult>>;
+  public start(options?: StartOptions): Promise<TaskSettledResult[]>;
+  public start(
+    options?: StartOptions
+  ): Promise<TaskSettledResult[] | Record<string, TaskSettledResult>> {
+    const format = (results: TaskSettledResult[]) =>
+      options?.keyed ? toKeyedResults(results) : results;
+
     // 如果已经执行过并且完成，直接返回结果
     if (this._completed) {
-      return Promise.resolve(this.asyncResults);
+      return Promise.resolve(format(this._orderedResults()));
     }
 
     // 如果已经执行过但未完成，返回同一个 Promise 等待
     if (this._started) {
-      return this._onFinishPromise!;
+      return this._onFinishPromise!.then(format);
     }
 
     this._started = true;
+    this._idle = false;
 
+    // 结果在结束时立即收集，避免 abortAll 清空任务表后丢失
     this._onFinishPromise = new Promise((resolve) => {
-      this.on("finish", () => {
-        this._completed = true;
-        resolve(this.asyncResults);
-      });
-
-      for (let i = 0; i < this._concurrency; i++) {
-        this._runNext();
-      }
+      this._resolveStart = resolve;
     });
+    for (let i = 0; i < this._concurrency; i++) {
+      this._runNext();
+    }
 
-    return this._onFinishPromise;
+    return this._onFinishPromise.then(format);
   }
 
-  private async _runNext() {
-    if (this._paused) return;
-    if (this._running >= this._concurrency) return;
-    const task = this._taskQuene.shift();
+  // 结束本次 start()，返回当前所有已结束任务的结果
+  private _completeStart() {
+    const resolve = this._resolveStart;
+    if (!resolve) return;
+    this._resolveStart = null;
+    this._completed = true;
+    resolve(this._orderedResults());
+  }
+
+  // 按添加顺序返回已结束任务的结果
+  private _orderedResults(): TaskSettledResult[] {
+    const results: TaskSettledResult[] = [];
+    for (const task of this._tasks.values()) {
+      if (!SETTLED_STATES.includes(task.state)) continue;
+      results.push({
+        id: task.id,
+        state: task.state as SettledState,
+        value: task.result,
+        error: task.error,
+      });
+    }
+    return results;
+  }
 
-    if (!task) {
-      if (this._running === 0) {
-        this._emit("finish");
+  private async _runNext() {
+    // 队列为空时即使处于暂停状态也要检查是否空闲，abortAll 后才能触发 idle
+    if (this._queuedCount() === 0) {
+      if (this._isIdle()) {
+        // 已调用 start() 时，依赖永远无法满足的任务直接失败，避免调度器无法结束
+        if (this._started && this._waiting.size > 0) {
+          this._rejectUnresolved();
+          if (this._queuedCount() > 0) {
+            this._runNext();
+            return;
+          }
+        }
+        if (!this._idle) {
+          this._idle = true;
+          this._emit("idle");
+          this._completeStart();
+          this._emit("finish");
+        }
       }
       return;
     }
 
+    if (this._paused) return;
+    if (this._running >= this._concurrency) return;
+
+    const task = this._takeNext();
+    if (!task) return; // 任务都被限流或所在队列已暂停、已满
+
+    const queue = this._getQueue(task.options.queue);
     this._running++;
+    queue.running++;
+    this._idle = false;
+    task.state = "running";
+    task.startedAt ??= Date.now();
+    this._firstStartAt ??= task.startedAt;
     this._emit("start", task.id);
+    if (this._queuedCount() === 0) this._emit("empty");
 
     try {
       const result = await this._executeTask(task);
-      this.asyncResults.push(result);
+      if (task.state !== "running") return; // 已被 abortAll 以取消结束
+      if (this._retain && !this._transient.has(task.id)) {
+        this.asyncResults.push(result);
+      }
+      this._settle(task, "succeeded", result);
       this._emit("success", task.id, result);
+      this._notifyDependents(task);
     } catch (err) {
-      const maxRetries =
-        task.options.retry > 0 ? task.options.retry : this._retry;
-      if (task.attempt < maxRetries) {
+      const policy = task.options.retry;
+      if (task.state !== "running") {
+        // 已被 abortAll 以取消结束，只需归还并发槽位
+      } else if (task.options.signal.aborted) {
+        // 被取消的任务不再重试
+        this._settle(task, "cancelled", err);
+        this._emit("cancel", task.id, err);
+        this._notifyDependents(task);
+      } else if (
+        task.attempt < policy.retries &&
+        policy.retryIf(err, task.attempt + 1)
+      ) {
         task.attempt++;
-        this._emit("retry", task.id, task.attempt, err);
-        this._taskQuene.unshift(task); // 重试放回队列
+        task.state = "retrying";
+        const delay = computeRetryDelay(policy, task.attempt);
+        this._emit("retry", task.id, task.attempt, err, delay);
+        if (task.name != null) this._persistSoon();
+        this._scheduleRetry(task, delay);
       } else {
+        this._settle(task, "failed", err);
         this._emit("error", task.id, err);
+        this._notifyDependents(task);
       }
     } finally {
       this._running--;
+      queue.running--;
       this._runNext();
     }
   }
 
+  // 在可调度的队列中按虚拟时间从小到大挑选，队列内按优先级取出第一个未被限流的任务
+  private _takeNext(): Task | undefined {
+    const candidates = [...this._queues.values()]
+      .filter(
+        (queue) =>
+          !queue.paused &&
+          queue.heap.size > 0 &&
+          queue.running < queue.concurrency
+      )
+      .sort((a, b) => a.pass - b.pass);
+    if (candidates.length === 0) return undefined;
+
+    if (this._rateLimiter && this._rateLimiter.available < 1) {
+      // 全局限流时所有任务都需要等待
+      const wait = this._rateLimiter.waitTime();
+      this._markThrottled(candidates[0].heap.peek()!, null, wait);
+      this._scheduleRateLimitWake(wait);
+      return undefined;
+    }
+
+    let minWait = Infinity;
+    for (const queue of candidates) {
+      let next: Task | undefined;
+      const skipped: Task[] = []; // 被分组限流跳过的任务，最后放回堆中
+
+      while (!next && queue.heap.size > 0) {
+        const task = queue.heap.pop()!;
+        const key = task.options.rateLimitKey;
+        const keyed = key != null ? this._getKeyedLimiter(key) : null;
+        if (keyed && keyed.available < 1) {
+          const wait = keyed.waitTime();
+          minWait = Math.min(minWait, wait);
+          this._markThrottled(task, key!, wait);
+          skipped.push(task);
+          continue;
+        }
+
+        this._rateLimiter?.tryTake();
+        keyed?.tryTake();
+        this._throttled.delete(task);
+        next = task;
+      }
+
+      skipped.forEach((task) => queue.heap.push(task));
+      if (next) {
+        // 权重越大，虚拟时间前进越慢，被选中的次数越多
+        this._virtualTime = queue.pass;
+        queue.pass += 1 / queue.weight;
+        return next;
+      }
+    }
+
+    if (minWait < Infinity) this._scheduleRateLimitWake(minWait);
+    return undefined;
+  }
+
+  private _enqueue(task: Task, front = false) {
+    task.enqueuedAt ??= Date.now();
+    // 重试任务排在同优先级任务之前
+    task.seq = front ? -++this._retrySeq : ++this._seq;
+    const queue = this._getQueue(task.options.queue);
+    // 空闲后重新有任务的队列从当前虚拟时间开始，不能用空闲期间攒下的份额插队
+    if (queue.heap.size === 0) {
+      queue.pass = Math.max(queue.pass, this._virtualTime);
+    }
+    queue.heap.push(task);
+  }
+
+  // 获取命名队列，不存在时按配置创建
+  private _getQueue(name: string): NamedQueue {
+    let queue = this._queues.get(name);
+    if (!queue) {
+      const options = this._queueOptions[name];
+      const weight = options?.weight ?? 1;
+      if (!(weight > 0)) {
+        throw new Error(`Queue "${name}" weight must be a positive number`);
+      }
+      queue = {
+        weight,
+        concurrency: options?.concurrency ?? Infinity,
+        paused: false,
+        pass: this._virtualTime,
+        running: 0,
+        heap: new PriorityQueue((a, b) => this._compareTasks(a, b)),
+        counts: { succeeded: 0, failed: 0, cancelled: 0 },
+      };
+      this._queues.set(name, queue);
+    }
+    return queue;
+  }
+
+  private _queuedCount(): number {
+    let count = 0;
+    this._queues.forEach((queue) => (count += queue.heap.size));
+    return count;
+  }
+
+  // 有效优先级 = priority + 排队时长 * 老化速率；所有任务老化速率相同，
+  // 比较时排队时长中的“当前时间”会相互抵消，因此堆序不随时间变化
+  private _compareTasks(a: Task, b: Task): number {
+    const scoreA = a.options.priority - a.enqueuedAt! * this._agingRate;
+    const scoreB = b.options.priority - b.enqueuedAt! * this._agingRate;
+    if (scoreA !== scoreB) return scoreB - scoreA;
+    return a.seq - b.seq;
+  }
+
+  private _getKeyedLimiter(key: string): TokenBucket | null {
+    if (!this._keyedRateLimits[key]) return null;
+    if (!this._keyedLimiters.has(key)) {
+      this._keyedLimiters.set(key, new TokenBucket(this._keyedRateLimits[key]));
+    }
+    return this._keyedLimiters.get(key)!;
+  }
+
+  // 每个任务被限流挂起时只通知一次
+  private _markThrottled(task: Task, key: string | null, wait: number) {
+    if (this._throttled.has(task)) return;
+    this._throttled.add(task);
+    this._emit("throttled", task.id, key, wait);
+  }
+
+  // 令牌补充后重新尝试调度空闲的并发槽位
+  private _scheduleRateLimitWake(wait: number) {
+    if (this._rateLimitTimer) return;
+
+    this._rateLimitTimer = setTimeout(() => {
+      this._rateLimitTimer = null;
+      const slots = this._concurrency - this._running;
+      for (let i = 0; i < slots; i++) {
+        this._runNext();
+      }
+    }, Math.max(wait, 1));
+  }
+
+  // 定时任务到点后，已启动（或自动启动）时才立即调度
+  private _kick() {
+    if (this._started || this._autoStart) this._runNext();
+  }
+
+  // 在指定时间执行回调，超过 setTimeout 上限时分段等待
+  private _setTimer(task: Task, at: number, callback: () => void) {
+    const wait = Math.max(at - Date.now(), 0);
+    const timer = setTimeout(() => {
+      if (wait > MAX_TIMEOUT) {
+        this._setTimer(task, at, callback);
+        return;
+      }
+      this._scheduleTimers.delete(task);
+      callback();
+    }, Math.min(wait, MAX_TIMEOUT));
+    this._scheduleTimers.set(task, timer);
+  }
+
+  // 周期任务到点：先安排下一次，再按重叠策略决定本次是否执行
+  private _tick(job: Task) {
+    const recurrence = this._recurrences.get(job);
+    if (!recurrence) return;
+
+    const now = Date.now();
+    const nextAt = recurrence.cron
+      ? nextCronDate(recurrence.cron, now).getTime()
+      : now + (job.options.every as number);
+    job.runAt = nextAt;
+    this._setTimer(job, nextAt, () => this._tick(job));
+
+    if (recurrence.active.size > 0 && job.options.overlap !== "allow") {
+      if (job.options.overlap === "queue") recurrence.backlog = true;
+      return;
+    }
+    this._runOccurrence(job, recurrence);
+  }
+
+  // 周期任务的每次执行都作为一个独立任务加入队列
+  private _runOccurrence(job: Task, recurrence: Recurrence) {
+    const { options } = job;
+    const occurrence = this.addTask(job.fn, {
+      id: `${job.id}#${++recurrence.runs}`,
+      priority: options.priority,
+      retry: options.retry,
+      timeout: options.timeout,
+      signal: options.signal, // 取消周期任务时一并取消其执行
+      rateLimitKey: options.rateLimitKey,
+      queue: options.queue,
+    });
+    recurrence.active.add(occurrence);
+
+    const onSettled = () => {
+      recurrence.active.delete(occurrence);
+      if (occurrence.state === "succeeded") job.result = occurrence.result;
+      if (recurrence.backlog && this._recurrences.has(job)) {
+        recurrence.backlog = false;
+        this._runOccurrence(job, recurrence);
+      }
+    };
+    occurrence.promise.then(onSettled, onSettled);
+    this._kick();
+  }
+
+  // 重试放回队列，有退避延迟时等待后再放回
+  private _scheduleRetry(task: Task, delay: number) {
+    if (delay <= 0) {
+      this._enqueue(task, true);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this._retryTimers.delete(task);
+      this._enqueue(task, true);
+      this._runNext();
+    }, delay);
+    this._retryTimers.set(task, timer);
+  }
+
   private _executeTask(task: Task): Promise<any> {
     const { fn, options } = task;
     const { timeout, signal } = options;
@@ -168,7 +1071,20 @@ export class AsyncScheduler {
       return Promise.reject(new Error("Task Cancelled"));
     }
 
-    const taskPromise = fn(signal);
+    // 单次执行的信号：超时后中止，让任务（如 worker）有机会真正停止
+    const attemptController = new AbortController();
+    const attemptSignal = AbortSignal.any([signal, attemptController.signal]);
+
+    const taskPromise = fn(attemptSignal, {
+      id: task.id,
+      attempt: task.attempt,
+      deps: options.dependsOn.map((id) => this._tasks.get(id)?.result),
+      progress: (value) => {
+        if (task.state !== "running") return;
+        task.progress = value;
+        this._emit("progress", task.id, value);
+      },
+    });
 
     // abort 监听，监听手动取消
     const abortPromise = new Promise((_, reject) =>
@@ -182,9 +1098,15 @@ export class AsyncScheduler {
     // 超时监听
     if (timeout > 0) {
       const timeoutPromise = new Promise((_, reject) => {
-        const timer = setTimeout(() => reject(new Error("Timeout")), timeout);
+        const timer = setTimeout(() => {
+          const error = new Error("Timeout");
+          this._emit("timeout", task.id, timeout);
+          reject(error);
+          attemptController.abort(error);
+        }, timeout);
         // 无论任务结束还是取消，都清掉定时器
-        taskPromise.finally(() => clearTimeout(timer));
+        const clear = () => clearTimeout(timer);
+        taskPromise.then(clear, clear);
         signal.addEventListener("abort", () => clearTimeout(timer));
       });
 
@@ -196,13 +1118,16 @@ export class AsyncScheduler {
 
   // 停止取新任务，但不终止已运行任务
   public pause() {
+    if (this._paused) return;
     this._paused = true;
+    this._emit("paused");
   }
 
   // 继续调度队列
   public resume() {
     if (!this._paused) return;
     this._paused = false;
+    this._emit("resumed");
 
     const slots = this._concurrency - this._running;
     for (let i = 0; i < slots; i++) {
@@ -210,16 +1135,72 @@ export class AsyncScheduler {
     }
   }
 
+  // 暂停指定队列，其他队列照常调度
+  public pauseQueue(name: string) {
+    this._getQueue(name).paused = true;
+  }
+
+  public resumeQueue(name: string) {
+    const queue = this._getQueue(name);
+    if (!queue.paused) return;
+    queue.paused = false;
+    queue.pass = Math.max(queue.pass, this._virtualTime);
+
+    if (this._started || this._autoStart) {
+      const slots = this._concurrency - this._running;
+      for (let i = 0; i < slots; i++) {
+        this._runNext();
+      }
+    }
+  }
+
+  // 取消指定队列中所有未结束的任务，队列之后仍可继续使用
+  public abortQueue(name: string) {
+    for (const task of [...this._tasks.values()]) {
+      if (task.options.queue !== name) continue;
+      if (SETTLED_STATES.includes(task.state)) continue;
+      this.cancelTask(task.id);
+    }
+  }
+
   // 取消指定任务
   public cancelTask(id: string) {
     const task = this._tasks.get(id);
     if (!task) return;
 
-    // 从队列删除
-    const index = this._taskQuene.indexOf(task);
-    if (index > -1) {
-      this._taskQuene.splice(index, 1);
-      this._tasks.delete(id);
+    // 从队列、依赖等待集合或重试等待中删除
+    const queued = this._getQueue(task.options.queue).heap.remove(task);
+    const retryTimer = this._retryTimers.get(task);
+    if (queued || this._waiting.has(task) || retryTimer) {
+      this._waiting.delete(task);
+      this._throttled.delete(task);
+      clearTimeout(retryTimer);
+      this._retryTimers.delete(task);
+      const reason = new Error("Task Cancelled");
+      this._settle(task, "cancelled", reason);
+      this._emit("cancel", task.id, reason);
+      this._notifyDependents(task);
+      // 取消可能让调度器变为空闲，或让依赖方进入队列
+      if (this._started) this._runNext();
+      return;
+    }
+
+    // 延迟、定时或周期任务：停止计时，周期任务一并取消尚未结束的执行
+    const scheduleTimer = this._scheduleTimers.get(task);
+    if (scheduleTimer || this._recurrences.has(task)) {
+      clearTimeout(scheduleTimer);
+      this._scheduleTimers.delete(task);
+      const recurrence = this._recurrences.get(task);
+      this._recurrences.delete(task);
+      recurrence?.active.forEach((occurrence) =>
+        this.cancelTask(occurrence.id)
+      );
+
+      const reason = new Error("Task Cancelled");
+      this._settle(task, "cancelled", reason);
+      this._emit("cancel", task.id, reason);
+      this._notifyDependents(task);
+      if (this._started) this._runNext();
       return;
     }
 
@@ -227,31 +1208,450 @@ export class AsyncScheduler {
     task.controller.abort();
   }
 
+  /**
+   * 取消所有未结束的任务（包括运行中的任务），并让正在等待的 start() 以这些结果返回
+   *
+   * 运行中的任务立即以 cancelled 结束，但仍占用并发槽位，直到任务函数真正退出
+   */
   public abortAll() {
-    if (!this._started) return;
+    const pending = [...this._tasks.values()].filter(
+      (task) => !SETTLED_STATES.includes(task.state)
+    );
+    // autoStart 的调度器不会调用 start()，以是否有未结束的任务判断
+    if (!this._started && pending.length === 0) return;
 
     this._paused = true;
-    this._taskQuene = [];
+
+    for (const task of pending) {
+      const reason = new Error("Task Cancelled");
+      this._settle(task, "cancelled", reason);
+      this._emit("cancel", task.id, reason);
+    }
+    this._retryTimers.forEach((timer) => clearTimeout(timer));
+    this._retryTimers.clear();
+    this._scheduleTimers.forEach((timer) => clearTimeout(timer));
+    this._scheduleTimers.clear();
+    this._recurrences.clear();
+    if (this._rateLimitTimer) clearTimeout(this._rateLimitTimer);
+    this._rateLimitTimer = null;
+    this._throttled.clear();
+    this._queues.forEach((queue) => queue.heap.clear());
 
     this._globalAbortController.abort();
+    this._completeStart();
 
-    // 重置内部状态，让调度器可以被重新使用
+    // 重置内部状态，让调度器可以被重新使用；运行计数由任务退出时自行归还
     this._tasks.clear();
-    this._running = 0;
+    this._waiting.clear();
+    this._dependents.clear();
+    this._inflight.clear();
     this._started = false;
+    this._completed = false;
     this._globalAbortController = new AbortController();
   }
 
-  // 注册生命周期事件
-  public on(event: EventType, callback: Function) {
-    if (!this._events.has(event)) this._events.set(event, []);
-    this._events.get(event)!.push(callback);
+  // 没有运行中、排队中、等待重试和等待定时触发的任务
+  private _isIdle(): boolean {
+    return (
+      this._running === 0 &&
+      this._queuedCount() === 0 &&
+      this._retryTimers.size === 0 &&
+      this._scheduleTimers.size === 0
+    );
+  }
+
+  // 调度器空闲时 resolve，已空闲时立即 resolve
+  public onIdle(): Promise<void> {
+    if (this._isIdle()) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.once("idle", () => resolve());
+    });
   }
 
-  private _emit(event: EventType, ...args: any[]) {
-    const listeners = this._events.get(event);
-    if (listeners) {
-      listeners.forEach((cb) => cb(...args));
+  /**
+   * 停止接收新任务并等待已添加的任务全部结束，之后恢复接收新任务
+   *
+   * 周期任务不再产生新的执行；超过 timeout 仍未结束的任务会被 abortAll 取消
+   */
+  public async drain(options?: DrainOptions) {
+    if (this._draining) return this._waitForDrain(options);
+    this._draining = true;
+    try {
+      await this._waitForDrain(options);
+    } finally {
+      this._draining = false;
     }
   }
+
+  // drain 之后永久拒绝新任务
+  public async close(options?: DrainOptions) {
+    this._closed = true;
+    await this._waitForDrain(options);
+  }
+
+  private async _waitForDrain(options?: DrainOptions) {
+    // 周期任务永远不会结束：停止计时，已经开始的执行照常完成
+    for (const job of [...this._recurrences.keys()]) {
+      clearTimeout(this._scheduleTimers.get(job));
+      this._scheduleTimers.delete(job);
+      this._recurrences.delete(job);
+      const reason = new Error("Task Cancelled");
+      this._settle(job, "cancelled", reason);
+      this._emit("cancel", job.id, reason);
+      this._notifyDependents(job);
+    }
+
+    if (!this._started) this.start();
+    const idle = this.onIdle();
+
+    const timeout = options?.timeout;
+    if (timeout == null) return idle;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeout);
+    });
+    const timedOut = await Promise.race([idle.then(() => false), expired]);
+    clearTimeout(timer);
+    if (!timedOut) return;
+
+    // abortAll 会暂停调度器，恢复之前的暂停状态，drain 之后才能继续执行新任务
+    const paused = this._paused;
+    this.abortAll();
+    this._paused = paused;
+  }
+
+  // 记录任务的最终状态，并完成任务句柄上的 promise
+  private _settle(task: Task, state: SettledState, value: any) {
+    if (SETTLED_STATES.includes(task.state)) return;
+    task.state = state;
+    task.finishedAt = Date.now();
+    this._counts[state]++;
+    this._getQueue(task.options.queue).counts[state]++;
+
+    const { key, cacheTtl } = task.options;
+    if (key != null && this._inflight.get(key) === task) {
+      this._inflight.delete(key);
+      if (state === "succeeded" && cacheTtl > 0) {
+        this._cacheStore.set(key, { value, expiresAt: Date.now() + cacheTtl });
+      }
+    }
+
+    const settler = this._settlers.get(task.id);
+    this._settlers.delete(task.id);
+
+    if (state === "succeeded") {
+      task.result = value;
+      settler?.resolve(value);
+    } else {
+      task.error = value;
+      settler?.reject(value);
+    }
+
+    if (task.name != null) this._persistSoon();
+    // 调用方在 _settle 之后还会通知依赖方，释放放到微任务中
+    if (!this._retain) queueMicrotask(() => this._release(task));
+  }
+
+  // retain 为 false 时释放已结束的任务；仍有未结束的依赖方时保留，待其结束后再释放
+  private _release(task: Task) {
+    if (this._tasks.get(task.id) !== task) return;
+    const needed = [...(this._dependents.get(task.id) ?? [])].some((id) => {
+      const dependent = this._tasks.get(id);
+      return dependent && !SETTLED_STATES.includes(dependent.state);
+    });
+    if (!needed) {
+      this._tasks.delete(task.id);
+      this._dependents.delete(task.id);
+      this._transient.delete(task.id);
+    }
+
+    // 本任务已结束，它依赖的任务可能不再被需要
+    for (const depId of task.options.dependsOn) {
+      const dep = this._tasks.get(depId);
+      if (dep && SETTLED_STATES.includes(dep.state)) this._release(dep);
+    }
+  }
+
+  // 检测新任务的依赖是否构成环
+  private _assertNoCycle(id: string, dependsOn: string[]) {
+    const visited = new Set<string>();
+    const visit = (current: string, path: string[]) => {
+      if (current === id) {
+        throw new Error(
+          `Circular dependency detected: ${[id, ...path].join(" -> ")}`
+        );
+      }
+      if (visited.has(current)) return;
+      visited.add(current);
+
+      const deps = this._tasks.get(current)?.options.dependsOn ?? [];
+      for (const dep of deps) visit(dep, [...path, dep]);
+    };
+
+    for (const dep of dependsOn) visit(dep, [dep]);
+  }
+
+  // 根据依赖状态决定任务进入队列、继续等待，还是直接失败/跳过
+  private _resolveDependencies(task: Task) {
+    const { dependsOn, dependencyFailure } = task.options;
+    const deps = dependsOn.map((id) => this._tasks.get(id));
+
+    const broken = deps.find(
+      (dep) => dep && (dep.state === "failed" || dep.state === "cancelled")
+    );
+    if (broken && dependencyFailure !== "continue") {
+      this._rejectByDependency(task, broken.id);
+      return;
+    }
+
+    const ready = deps.every(
+      (dep) =>
+        dep &&
+        (dep.state === "succeeded" ||
+          (dependencyFailure === "continue" &&
+            SETTLED_STATES.includes(dep.state)))
+    );
+
+    if (!ready) {
+      task.state = "waiting";
+      this._waiting.add(task);
+      return;
+    }
+
+    this._waiting.delete(task);
+    task.state = "queued";
+    this._enqueue(task);
+  }
+
+  private _rejectByDependency(task: Task, depId: string) {
+    this._waiting.delete(task);
+
+    const error = new Error(`Dependency "${depId}" failed`);
+    if (task.options.dependencyFailure === "skip") {
+      this._settle(task, "cancelled", error);
+      this._emit("skip", task.id, depId);
+    } else {
+      this._settle(task, "failed", error);
+      this._emit("error", task.id, error);
+    }
+
+    this._notifyDependents(task);
+  }
+
+  // 任务结束后，重新检查依赖它的任务
+  private _notifyDependents(task: Task) {
+    const dependents = this._dependents.get(task.id);
+    if (!dependents) return;
+
+    for (const id of dependents) {
+      const dependent = this._tasks.get(id);
+      if (dependent?.state === "waiting") {
+        this._resolveDependencies(dependent);
+      }
+    }
+  }
+
+  // 依赖的任务 id 从未被添加，让等待中的任务失败
+  private _rejectUnresolved() {
+    for (const task of [...this._waiting]) {
+      if (task.state !== "waiting") continue;
+      const missing = task.options.dependsOn.find((id) => !this._tasks.has(id));
+      if (!missing) continue;
+
+      this._waiting.delete(task);
+      this._settle(
+        task,
+        "failed",
+        new Error(`Unknown dependency "${missing}"`)
+      );
+      this._emit("error", task.id, task.error);
+      this._notifyDependents(task);
+    }
+  }
+
+  /**
+   * 未结束的具名任务快照：排队、运行中、等待重试、等待依赖和定时中的任务
+   *
+   * 运行中的任务也会被保存，进程中途退出后恢复时会再次执行（至少执行一次）
+   */
+  public snapshot(): SchedulerSnapshot {
+    const pending = [...this._tasks.values()].filter(
+      (task) => task.name != null && !SETTLED_STATES.includes(task.state)
+    );
+    const ids = new Set(pending.map((task) => task.id));
+
+    const tasks = pending.map(
+      (task): TaskSnapshot => ({
+        id: task.id,
+        name: task.name!,
+        payload: task.payload,
+        priority: task.options.priority,
+        attempt: task.attempt,
+        queue: task.options.queue,
+        // 已成功的依赖不会再出现在快照中，恢复后不再等待它们
+        dependsOn: task.options.dependsOn.filter((id) => ids.has(id)),
+        rateLimitKey: task.options.rateLimitKey,
+        key: task.options.key,
+        runAt: task.state === "scheduled" ? task.runAt : undefined,
+        every: task.options.every,
+      })
+    );
+
+    return { version: 1, savedAt: Date.now(), tasks };
+  }
+
+  // 将快照写入存储，多次调用按调用顺序依次写入
+  public async save() {
+    const storage = this._requireStorage();
+    const snapshot = this.snapshot();
+    this._saving = this._saving
+      .catch(() => {})
+      .then(() => storage.save(snapshot));
+    await this._saving;
+  }
+
+  /**
+   * 从存储中读取快照并重新添加其中的任务，保留 id、优先级、队列与已重试次数
+   *
+   * 已存在的任务 id 会被跳过；快照中有未注册的任务名时不添加任何任务并抛出错误
+   */
+  public async restore(): Promise<TaskHandle[]> {
+    const snapshot = await this._requireStorage().load();
+    if (!snapshot) return [];
+
+    const unknown = snapshot.tasks.find(
+      ({ name }) => !this._registry.has(name)
+    );
+    if (unknown) {
+      throw new Error(`Task "${unknown.name}" is not registered`);
+    }
+
+    const restored: TaskHandle[] = [];
+    for (const entry of snapshot.tasks) {
+      if (this._tasks.has(entry.id)) continue;
+      const { name, payload, attempt } = entry;
+      restored.push(
+        this._addNamedTask(
+          { name, payload, attempt },
+          {
+            id: entry.id,
+            priority: entry.priority,
+            queue: entry.queue,
+            dependsOn: entry.dependsOn,
+            rateLimitKey: entry.rateLimitKey,
+            key: entry.key,
+            runAt: entry.runAt,
+            every: entry.every,
+          }
+        )
+      );
+    }
+    return restored;
+  }
+
+  private _requireStorage(): SnapshotStorage {
+    if (!this._storage) {
+      throw new Error("persistence.storage must be provided to save snapshots");
+    }
+    return this._storage;
+  }
+
+  // 同一轮事件循环中的多次变化只保存一次
+  private _persistSoon() {
+    if (!this._storage || !this._autoSave || this._saveQueued) return;
+    this._saveQueued = true;
+    queueMicrotask(() => {
+      this._saveQueued = false;
+      this.save().catch((err) => this._emit("persistError", err));
+    });
+  }
+
+  // 清除缓存的结果，不传 key 时清空全部
+  public invalidate(key?: string) {
+    if (key == null) {
+      this._cacheStore.clear();
+    } else {
+      this._cacheStore.delete(key);
+    }
+  }
+
+  // 当前调度状态快照
+  public getStats(): SchedulerStats {
+    const queued = this._queuedCount();
+    const { succeeded, failed, cancelled } = this._counts;
+    const elapsed = this._firstStartAt ? Date.now() - this._firstStartAt : 0;
+
+    let blockedBy: SchedulerStats["blockedBy"] = null;
+    if (queued > 0 && this._running >= this._concurrency) {
+      blockedBy = "concurrency";
+    } else if (this._throttled.size > 0) {
+      blockedBy = "rateLimit";
+    }
+
+    return {
+      total: this._tasks.size,
+      scheduled: this._scheduleTimers.size,
+      waiting: this._waiting.size,
+      queued,
+      running: this._running,
+      retrying: this._retryTimers.size,
+      succeeded,
+      failed,
+      cancelled,
+      throttled: this._throttled.size,
+      blockedBy,
+      throughput:
+        elapsed > 0 ? ((succeeded + failed + cancelled) * 1000) / elapsed : 0,
+      queues: this._queueStats(),
+    };
+  }
+
+  private _queueStats(): Record<string, QueueStats> {
+    const stats: Record<string, QueueStats> = {};
+    this._queues.forEach((queue, name) => {
+      stats[name] = {
+        weight: queue.weight,
+        concurrency: queue.concurrency,
+        paused: queue.paused,
+        queued: queue.heap.size,
+        running: queue.running,
+        ...queue.counts,
+      };
+    });
+    return stats;
+  }
+
+  // 注册生命周期事件，返回取消订阅函数
+  public on<E extends EventType>(
+    event: E,
+    callback: Listener<SchedulerEvents[E]>
+  ): () => void {
+    return this._emitter.on(event, callback);
+  }
+
+  public off<E extends EventType>(
+    event: E,
+    callback: Listener<SchedulerEvents[E]>
+  ) {
+    this._emitter.off(event, callback);
+  }
+
+  public once<E extends EventType>(
+    event: E,
+    callback: Listener<SchedulerEvents[E]>
+  ): () => void {
+    return this._emitter.once(event, callback);
+  }
+
+  // 以异步迭代器的形式消费事件
+  public events(
+    options?: EventStreamOptions<SchedulerEvents>
+  ): AsyncIterableIterator<SchedulerEvent> {
+    return this._emitter.events(options);
+  }
+
+  private _emit<E extends EventType>(event: E, ...args: SchedulerEvents[E]) {
+    this._emitter.emit(event, ...args);
+  }
 }
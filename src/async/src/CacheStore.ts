@@ -0,0 +1,46 @@
+export interface CacheEntry<T = any> {
+  value: T;
+  expiresAt: number; // 过期时间戳（ms）
+}
+
+/**
+ * 结果缓存存储，可替换为 LRU、localStorage 等实现
+ *
+ * 调度器在添加任务时同步读取缓存，因此接口为同步接口
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+// 默认的内存缓存，读取时惰性清理过期条目
+export class MemoryCacheStore implements CacheStore {
+  private _entries: Map<string, CacheEntry> = new Map();
+
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  public get(key: string): CacheEntry | undefined {
+    const entry = this._entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this._entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  public set(key: string, entry: CacheEntry) {
+    this._entries.set(key, entry);
+  }
+
+  public delete(key: string) {
+    this._entries.delete(key);
+  }
+
+  public clear() {
+    this._entries.clear();
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * 带索引的二叉堆：push / pop / remove 均为 O(log n)
+ *
+ * compare(a, b) < 0 表示 a 应先于 b 出队
+ */
+export class PriorityQueue<T> {
+  private _heap: T[] = [];
+  private _index: Map<T, number> = new Map(); // 元素 -> 堆中下标，用于 O(log n) 删除
+  private _compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this._compare = compare;
+  }
+
+  public get size(): number {
+    return this._heap.length;
+  }
+
+  public has(item: T): boolean {
+    return this._index.has(item);
+  }
+
+  public peek(): T | undefined {
+    return this._heap[0];
+  }
+
+  public push(item: T) {
+    if (this._index.has(item)) return;
+    this._heap.push(item);
+    this._index.set(item, this._heap.length - 1);
+    this._siftUp(this._heap.length - 1);
+  }
+
+  public pop(): T | undefined {
+    if (this._heap.length === 0) return undefined;
+    const top = this._heap[0];
+    this._removeAt(0);
+    return top;
+  }
+
+  public remove(item: T): boolean {
+    const index = this._index.get(item);
+    if (index === undefined) return false;
+    this._removeAt(index);
+    return true;
+  }
+
+  public clear() {
+    this._heap = [];
+    this._index.clear();
+  }
+
+  // 按出队顺序返回所有元素（不修改队列）
+  public toArray(): T[] {
+    return [...this._heap].sort(this._compare);
+  }
+
+  private _removeAt(index: number) {
+    const last = this._heap.pop()!;
+    this._index.delete(this._heap.length === index ? last : this._heap[index]);
+    if (index === this._heap.length) return;
+
+    this._heap[index] = last;
+    this._index.set(last, index);
+    this._siftDown(index);
+    this._siftUp(index);
+  }
+
+  private _siftUp(index: number) {
+    const heap = this._heap;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this._compare(heap[index], heap[parent]) >= 0) break;
+      this._swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private _siftDown(index: number) {
+    const heap = this._heap;
+    const length = heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this._compare(heap[left], heap[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < length && this._compare(heap[right], heap[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+
+      this._swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private _swap(i: number, j: number) {
+    const heap = this._heap;
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+    this._index.set(heap[i], i);
+    this._index.set(heap[j], j);
+  }
+}
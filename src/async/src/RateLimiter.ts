@@ -0,0 +1,58 @@
+export interface RateLimitOptions {
+  limit: number; // 每个时间窗口内允许启动的任务数
+  interval: number; // 时间窗口（ms）
+  burst?: number; // 令牌桶容量，即允许的突发任务数（默认等于 limit）
+}
+
+/**
+ * 令牌桶限流器：以 limit / interval 的速率补充令牌，最多累积 burst 个
+ */
+export class TokenBucket {
+  private _capacity: number;
+  private _refillPerMs: number;
+  private _tokens: number;
+  private _lastRefill: number;
+
+  constructor({ limit, interval, burst }: RateLimitOptions) {
+    if (limit <= 0 || interval <= 0) {
+      throw new Error("rate limit and interval must be positive");
+    }
+
+    this._capacity = burst ?? limit;
+    this._refillPerMs = limit / interval;
+    this._tokens = this._capacity;
+    this._lastRefill = Date.now();
+  }
+
+  // 当前可用令牌数
+  public get available(): number {
+    this._refill();
+    return Math.floor(this._tokens);
+  }
+
+  public tryTake(): boolean {
+    this._refill();
+    if (this._tokens < 1) return false;
+    this._tokens--;
+    return true;
+  }
+
+  // 距离下一个令牌可用还需等待的时间（ms）
+  public waitTime(): number {
+    this._refill();
+    if (this._tokens >= 1) return 0;
+    return Math.ceil((1 - this._tokens) / this._refillPerMs);
+  }
+
+  private _refill() {
+    const now = Date.now();
+    const elapsed = now - this._lastRefill;
+    if (elapsed <= 0) return;
+
+    this._tokens = Math.min(
+      this._capacity,
+      this._tokens + elapsed * this._refillPerMs
+    );
+    this._lastRefill = now;
+  }
+}
@@ -0,0 +1,133 @@
+// 事件名 -> 回调参数元组；以自身的键约束，接口无需声明索引签名
+export type EventMap<Events> = Record<keyof Events, unknown[]>;
+
+export type Listener<Args extends any[]> = (...args: Args) => void;
+
+// events() 迭代得到的事件
+export type EmittedEvent<Events extends EventMap<Events>> = {
+  [E in keyof Events]: { type: E; args: Events[E] };
+}[keyof Events];
+
+export interface EventStreamOptions<Events extends EventMap<Events>> {
+  types?: (keyof Events)[]; // 只订阅部分事件，默认全部
+  signal?: AbortSignal; // 中止时结束迭代
+}
+
+/**
+ * 带类型的事件发射器
+ */
+export class TypedEmitter<Events extends EventMap<Events>> {
+  private _listeners: Map<keyof Events, Set<Listener<any>>> = new Map();
+  private _onceOrigins: WeakMap<Listener<any>, Listener<any>> = new WeakMap(); // once 包装 -> 原回调
+  private _anyListeners: Set<(event: EmittedEvent<Events>) => void> = new Set();
+
+  // 注册事件，返回取消订阅函数
+  public on<E extends keyof Events>(
+    event: E,
+    listener: Listener<Events[E]>
+  ): () => void {
+    if (!this._listeners.has(event)) this._listeners.set(event, new Set());
+    this._listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public off<E extends keyof Events>(event: E, listener: Listener<Events[E]>) {
+    const listeners = this._listeners.get(event);
+    if (!listeners) return;
+
+    for (const registered of listeners) {
+      if (
+        registered === listener ||
+        this._onceOrigins.get(registered) === listener
+      ) {
+        listeners.delete(registered);
+      }
+    }
+  }
+
+  // 只触发一次的事件
+  public once<E extends keyof Events>(
+    event: E,
+    listener: Listener<Events[E]>
+  ): () => void {
+    const wrapper = (...args: Events[E]) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    this._onceOrigins.set(wrapper, listener);
+    return this.on(event, wrapper);
+  }
+
+  public emit<E extends keyof Events>(event: E, ...args: Events[E]) {
+    const listeners = this._listeners.get(event);
+    if (listeners) {
+      [...listeners].forEach((cb) => cb(...args));
+    }
+    if (this._anyListeners.size > 0) {
+      const emitted = { type: event, args } as EmittedEvent<Events>;
+      [...this._anyListeners].forEach((cb) => cb(emitted));
+    }
+  }
+
+  public listenerCount(event: keyof Events): number {
+    return this._listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * 以异步迭代器的形式消费事件，迭代结束（break / return / signal 中止）时自动取消订阅
+   */
+  public events(
+    options?: EventStreamOptions<Events>
+  ): AsyncIterableIterator<EmittedEvent<Events>> {
+    const buffer: EmittedEvent<Events>[] = [];
+    let pending:
+      | ((result: IteratorResult<EmittedEvent<Events>>) => void)
+      | null = null;
+    let done = false;
+
+    const listener = (event: EmittedEvent<Events>) => {
+      if (options?.types && !options.types.includes(event.type)) return;
+      if (pending) {
+        const resolve = pending;
+        pending = null;
+        resolve({ value: event, done: false });
+      } else {
+        buffer.push(event);
+      }
+    };
+
+    const close = (): IteratorResult<EmittedEvent<Events>> => {
+      done = true;
+      buffer.length = 0;
+      this._anyListeners.delete(listener);
+      options?.signal?.removeEventListener("abort", onAbort);
+      if (pending) {
+        const resolve = pending;
+        pending = null;
+        resolve({ value: undefined, done: true });
+      }
+      return { value: undefined, done: true };
+    };
+    const onAbort = () => close();
+
+    this._anyListeners.add(listener);
+    if (options?.signal?.aborted) close();
+    options?.signal?.addEventListener("abort", onAbort);
+
+    return {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve) => {
+          pending = resolve;
+        });
+      },
+      return: () => Promise.resolve(close()),
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+}
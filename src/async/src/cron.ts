@@ -0,0 +1,126 @@
+/**
+ * 精简的 5 段 cron 表达式：分 时 日 月 周
+ *
+ * 支持 `*`、数字、列表 `1,2`、范围 `1-5`、步长 `*\/15` 与 `1-30/5`，周日可写作 0 或 7
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1 - 12
+  daysOfWeek: Set<number>; // 0 - 6，0 为周日
+  anyDayOfMonth: boolean; // 日字段以 * 开头（包括 */2 这样的步长）
+  anyDayOfWeek: boolean; // 周字段以 * 开头
+}
+
+const FIELDS: [min: number, max: number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end =
+        to === undefined ? (stepText === undefined ? start : max) : Number(to);
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step <= 0 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELDS[i][0], FIELDS[i][1])
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+// 日与周同时受限时，满足其一即可；任一字段以 * 开头时两者都要满足（与标准 cron 一致）
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dom && dow;
+  return dom || dow;
+}
+
+/**
+ * 计算 from 之后（不含 from 所在的分钟）下一次触发的时间，按本地时区
+ */
+export function nextCronDate(
+  schedule: CronSchedule | string,
+  from: Date | number = Date.now()
+): Date {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // 最多向后查找 5 年，避免如 2 月 31 日这样永远无法满足的表达式死循环
+  const limit = new Date(date).setFullYear(date.getFullYear() + 5);
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error("Cron expression never matches");
+}
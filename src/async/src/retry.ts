@@ -0,0 +1,72 @@
+export type BackoffStrategy = "fixed" | "linear" | "exponential";
+
+/**
+ * 重试策略
+ */
+export interface RetryPolicy {
+  retries?: number; // 最多重试次数
+  backoff?: BackoffStrategy; // 退避方式
+  delay?: number; // 基础延迟（ms）
+  factor?: number; // 指数退避的倍数
+  maxDelay?: number; // 单次延迟上限（ms）
+  // 抖动：true 为完全抖动（0 ~ delay），数字 r 表示在 [delay * (1 - r), delay] 内随机
+  jitter?: boolean | number;
+  retryIf?: (error: any, attempt: number) => boolean; // 返回 false 时不再重试
+}
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  retries: 0,
+  backoff: "fixed",
+  delay: 0,
+  factor: 2,
+  maxDelay: Infinity,
+  jitter: false,
+  retryIf: () => true,
+};
+
+// 数字视为重试次数，策略对象在 base 之上覆盖
+export function resolveRetryPolicy(
+  retry: number | RetryPolicy | undefined,
+  base: ResolvedRetryPolicy = DEFAULT_RETRY_POLICY
+): ResolvedRetryPolicy {
+  if (retry == null) return base;
+  if (typeof retry === "number") return { ...base, retries: retry };
+
+  // 显式为 undefined 的字段沿用 base
+  return {
+    retries: retry.retries ?? base.retries,
+    backoff: retry.backoff ?? base.backoff,
+    delay: retry.delay ?? base.delay,
+    factor: retry.factor ?? base.factor,
+    maxDelay: retry.maxDelay ?? base.maxDelay,
+    jitter: retry.jitter ?? base.jitter,
+    retryIf: retry.retryIf ?? base.retryIf,
+  };
+}
+
+/**
+ * 计算第 attempt 次重试（从 1 开始）前的等待时间
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number
+): number {
+  const { backoff, delay, factor, maxDelay, jitter } = policy;
+
+  let ms = delay;
+  if (backoff === "linear") {
+    ms = delay * attempt;
+  } else if (backoff === "exponential") {
+    ms = delay * factor ** (attempt - 1);
+  }
+  ms = Math.min(ms, maxDelay);
+
+  if (jitter) {
+    const ratio = jitter === true ? 1 : Math.min(Math.max(jitter, 0), 1);
+    ms -= Math.random() * ms * ratio;
+  }
+
+  return Math.max(0, Math.round(ms));
+}
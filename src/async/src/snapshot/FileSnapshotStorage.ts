@@ -0,0 +1,37 @@
+import type { SchedulerSnapshot, SnapshotStorage } from "./type";
+
+/**
+ * 以 JSON 文件保存快照（Node.js）
+ *
+ * 先写入临时文件再重命名，进程在写入中途退出时不会留下损坏的快照
+ */
+export class FileSnapshotStorage implements SnapshotStorage {
+  private _path: string;
+
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  public async load(): Promise<SchedulerSnapshot | null> {
+    // 动态引入，避免浏览器端打包时解析 node 内置模块
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(this._path, "utf8"));
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  public async save(snapshot: SchedulerSnapshot) {
+    const { rename, writeFile } = await import("node:fs/promises");
+    const temp = `${this._path}.tmp`;
+    await writeFile(temp, JSON.stringify(snapshot), "utf8");
+    await rename(temp, this._path);
+  }
+
+  public async clear() {
+    const { rm } = await import("node:fs/promises");
+    await rm(this._path, { force: true });
+  }
+}
@@ -0,0 +1,52 @@
+import type { SchedulerSnapshot, SnapshotStorage } from "./type";
+
+const STORE_NAME = "snapshots";
+
+// 将 IDBRequest 包装为 Promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 以 IndexedDB 保存快照（浏览器），适合任务 payload 较大、超出 localStorage 容量的场景
+ */
+export class IndexedDBSnapshotStorage implements SnapshotStorage {
+  private _dbName: string;
+  private _key: string;
+  private _db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = "async-scheduler", key = "default") {
+    this._dbName = dbName;
+    this._key = key;
+  }
+
+  public async load(): Promise<SchedulerSnapshot | null> {
+    const store = await this._store("readonly");
+    return (await promisify(store.get(this._key))) ?? null;
+  }
+
+  public async save(snapshot: SchedulerSnapshot) {
+    const store = await this._store("readwrite");
+    await promisify(store.put(snapshot, this._key));
+  }
+
+  public async clear() {
+    const store = await this._store("readwrite");
+    await promisify(store.delete(this._key));
+  }
+
+  private async _store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this._db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this._dbName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const db = await this._db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
@@ -0,0 +1,25 @@
+import type { SchedulerSnapshot, SnapshotStorage } from "./type";
+
+// 以 localStorage（或任意实现了 Storage 接口的对象）保存快照
+export class LocalStorageSnapshotStorage implements SnapshotStorage {
+  private _key: string;
+  private _storage: Storage;
+
+  constructor(key = "async-scheduler", storage: Storage = localStorage) {
+    this._key = key;
+    this._storage = storage;
+  }
+
+  public async load(): Promise<SchedulerSnapshot | null> {
+    const raw = this._storage.getItem(this._key);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  public async save(snapshot: SchedulerSnapshot) {
+    this._storage.setItem(this._key, JSON.stringify(snapshot));
+  }
+
+  public async clear() {
+    this._storage.removeItem(this._key);
+  }
+}
@@ -0,0 +1,18 @@
+import type { SchedulerSnapshot, SnapshotStorage } from "./type";
+
+// 内存存储，主要用于测试；保存时深拷贝，避免与调度器共享对象
+export class MemorySnapshotStorage implements SnapshotStorage {
+  private _snapshot: string | null = null;
+
+  public async load(): Promise<SchedulerSnapshot | null> {
+    return this._snapshot ? JSON.parse(this._snapshot) : null;
+  }
+
+  public async save(snapshot: SchedulerSnapshot) {
+    this._snapshot = JSON.stringify(snapshot);
+  }
+
+  public async clear() {
+    this._snapshot = null;
+  }
+}
@@ -0,0 +1,31 @@
+// 单个未结束任务的快照，所有字段都必须可 JSON 序列化
+export interface TaskSnapshot {
+  id: string;
+  name: string; // registerTask 注册的处理函数名
+  payload: unknown;
+  priority: number;
+  attempt: number; // 已失败的次数，恢复后继续计入重试次数
+  queue: string;
+  dependsOn: string[]; // 只保留同样未结束的依赖
+  rateLimitKey?: string;
+  key?: string;
+  runAt?: number; // 延迟、定时任务的触发时间
+  every?: number | string;
+}
+
+export interface SchedulerSnapshot {
+  version: 1;
+  savedAt: number;
+  tasks: TaskSnapshot[];
+}
+
+/**
+ * 快照存储适配器
+ *
+ * save 会在任务状态变化后被频繁调用，实现应当整体覆盖旧快照
+ */
+export interface SnapshotStorage {
+  load(): Promise<SchedulerSnapshot | null>;
+  save(snapshot: SchedulerSnapshot): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,68 @@
+export type IterableSource<T> =
+  | AsyncIterable<T>
+  | Iterable<T>
+  | ReadableStream<T>;
+
+/**
+ * 将异步可迭代对象、同步可迭代对象或 Web ReadableStream 统一为异步迭代器
+ *
+ * Node.js Readable 本身就是异步可迭代对象；提前结束时调用 return() 会销毁 / 取消数据源
+ */
+export function toAsyncIterator<T>(
+  source: IterableSource<T>
+): AsyncIterator<T> {
+  if (Symbol.asyncIterator in source) {
+    return (source as AsyncIterable<T>)[Symbol.asyncIterator]();
+  }
+
+  if (typeof (source as ReadableStream<T>).getReader === "function") {
+    const reader = (source as ReadableStream<T>).getReader();
+    return {
+      next: async () => {
+        const { done, value } = await reader.read();
+        return done ? { done: true, value: undefined } : { done: false, value };
+      },
+      return: async () => {
+        await reader.cancel();
+        reader.releaseLock();
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  const iterator = (source as Iterable<T>)[Symbol.iterator]();
+  return {
+    next: async () => iterator.next(),
+    return: async () => iterator.return?.() ?? { done: true, value: undefined },
+  };
+}
+
+/**
+ * 将异步可迭代对象转换为 Web ReadableStream，按读取方的节奏拉取（背压）
+ */
+export function toReadableStream<T>(
+  iterable: AsyncIterable<T>
+): ReadableStream<T> {
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        try {
+          const { done, value } = await iterator.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
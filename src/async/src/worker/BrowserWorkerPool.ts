@@ -0,0 +1,62 @@
+import { WorkerPool } from "./WorkerPool";
+import type { WorkerHandle } from "./type";
+
+// worker 入口：按请求加载模块并调用导出函数
+const BOOTSTRAP = `
+self.onmessage = async ({ data: { id, module, exportName, args } }) => {
+  try {
+    const mod = await import(module);
+    const fn = mod[exportName];
+    if (typeof fn !== "function") {
+      throw new Error(\`Export "\${exportName}" of "\${module}" is not a function\`);
+    }
+    const result = await fn(...args);
+    self.postMessage({ id, ok: true, result });
+  } catch (error) {
+    self.postMessage({
+      id,
+      ok: false,
+      error: {
+        name: error?.name ?? "Error",
+        message: error?.message ?? String(error),
+        stack: error?.stack,
+      },
+    });
+  }
+};
+`;
+
+/**
+ * 基于 Web Worker 的 worker 池
+ *
+ * worker 由 Blob URL 创建，模块地址需为绝对 URL，如 `new URL("./hash.js", import.meta.url)`
+ */
+export class BrowserWorkerPool extends WorkerPool {
+  private _bootstrapUrl: string | null = null;
+
+  protected _spawn(): WorkerHandle {
+    this._bootstrapUrl ??= URL.createObjectURL(
+      new Blob([BOOTSTRAP], { type: "text/javascript" })
+    );
+    const worker = new Worker(this._bootstrapUrl, { type: "module" });
+
+    return {
+      post: (message) => worker.postMessage(message),
+      onMessage: (listener) =>
+        worker.addEventListener("message", (event) => listener(event.data)),
+      onError: (listener) =>
+        worker.addEventListener("error", (event) =>
+          listener(new Error(event.message || "Worker error"))
+        ),
+      terminate: () => worker.terminate(),
+    };
+  }
+
+  public terminate() {
+    super.terminate();
+    if (this._bootstrapUrl) {
+      URL.revokeObjectURL(this._bootstrapUrl);
+      this._bootstrapUrl = null;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { WorkerPool } from "./WorkerPool";
+import type { WorkerHandle } from "./type";
+
+// worker 入口：按请求加载模块并调用导出函数
+const BOOTSTRAP = `
+const { parentPort } = require("node:worker_threads");
+const { isAbsolute, resolve } = require("node:path");
+const { pathToFileURL } = require("node:url");
+
+// 文件路径转换为 file: URL，其余（file: URL、包名）原样 import
+const toSpecifier = (module) =>
+  module.startsWith(".") || isAbsolute(module)
+    ? pathToFileURL(resolve(module)).href
+    : module;
+
+parentPort.on("message", async ({ id, module, exportName, args }) => {
+  try {
+    const mod = await import(toSpecifier(module));
+    const fn = mod[exportName];
+    if (typeof fn !== "function") {
+      throw new Error(\`Export "\${exportName}" of "\${module}" is not a function\`);
+    }
+    const result = await fn(...args);
+    parentPort.postMessage({ id, ok: true, result });
+  } catch (error) {
+    parentPort.postMessage({
+      id,
+      ok: false,
+      error: {
+        name: error?.name ?? "Error",
+        message: error?.message ?? String(error),
+        stack: error?.stack,
+      },
+    });
+  }
+});
+`;
+
+/**
+ * 基于 Node.js worker_threads 的 worker 池
+ */
+export class NodeWorkerPool extends WorkerPool {
+  protected async _spawn(): Promise<WorkerHandle> {
+    // 动态引入，避免浏览器端打包时解析 node 内置模块
+    const { Worker } = await import("node:worker_threads");
+    const worker = new Worker(BOOTSTRAP, { eval: true });
+
+    return {
+      post: (message) => worker.postMessage(message),
+      onMessage: (listener) => worker.on("message", listener),
+      onError: (listener) => {
+        worker.on("error", listener);
+        worker.on("exit", (code) => {
+          if (code !== 0)
+            listener(new Error(`Worker exited with code ${code}`));
+        });
+      },
+      terminate: () => {
+        worker.removeAllListeners();
+        worker.terminate();
+      },
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import type {
+  WorkerHandle,
+  WorkerPoolOptions,
+  WorkerResponse,
+  WorkerTaskSpec,
+} from "./type";
+
+type PendingRun = {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+};
+
+type Waiter = {
+  resolve: (worker: WorkerHandle) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * worker 池：复用空闲 worker，取消或超时时直接终止正在执行的 worker
+ */
+export abstract class WorkerPool {
+  private _size: number;
+  private _workers: Set<WorkerHandle> = new Set();
+  private _idle: WorkerHandle[] = [];
+  private _waiters: Waiter[] = []; // 等待空闲 worker 的调用
+  private _spawning = 0; // 正在创建的 worker，创建前先占用名额
+  private _pending: Map<WorkerHandle, PendingRun> = new Map();
+  private _nextId = 0;
+  private _terminated = false;
+
+  constructor(options?: WorkerPoolOptions) {
+    this._size = Math.max(1, options?.size ?? 4);
+  }
+
+  // 创建平台相关的 worker
+  protected abstract _spawn(): WorkerHandle | Promise<WorkerHandle>;
+
+  public get size(): number {
+    return this._workers.size;
+  }
+
+  public async run(spec: WorkerTaskSpec, signal?: AbortSignal): Promise<any> {
+    if (this._terminated) throw new Error("Worker pool terminated");
+    if (signal?.aborted) throw abortReason(signal);
+
+    const worker = await this._acquire();
+    if (signal?.aborted) {
+      this._release(worker);
+      throw abortReason(signal);
+    }
+
+    return new Promise((resolve, reject) => {
+      // 取消或超时：终止 worker 才能真正停止 CPU 密集的同步计算
+      const onAbort = () => {
+        this._pending.delete(worker);
+        this._discard(worker);
+        reject(abortReason(signal!));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this._pending.set(worker, {
+        resolve: (value) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
+      });
+
+      worker.post({
+        id: ++this._nextId,
+        module: String(spec.module),
+        exportName: spec.export ?? "default",
+        args: spec.args ?? [],
+      });
+    });
+  }
+
+  // 终止所有 worker，正在执行的任务以错误结束
+  public terminate() {
+    this._terminated = true;
+    for (const worker of [...this._workers]) {
+      this._pending.get(worker)?.reject(new Error("Worker pool terminated"));
+      this._discard(worker);
+    }
+    for (const waiter of this._waiters) {
+      waiter.reject(new Error("Worker pool terminated"));
+    }
+    this._waiters = [];
+  }
+
+  private async _acquire(): Promise<WorkerHandle> {
+    const idle = this._idle.pop();
+    if (idle) return idle;
+
+    if (this._workers.size + this._spawning < this._size) {
+      this._spawning++;
+      let worker: WorkerHandle;
+      try {
+        worker = await this._spawn();
+      } catch (err) {
+        // 归还名额，让一个等待中的调用重新尝试创建
+        this._spawning--;
+        const waiter = this._waiters.shift();
+        if (waiter) this._acquire().then(waiter.resolve, waiter.reject);
+        throw err;
+      }
+      this._spawning--;
+      if (this._terminated) {
+        worker.terminate();
+        throw new Error("Worker pool terminated");
+      }
+      this._workers.add(worker);
+      worker.onMessage((message) => this._handleMessage(worker, message));
+      worker.onError((error) => {
+        this._pending.get(worker)?.reject(error);
+        this._pending.delete(worker);
+        this._discard(worker);
+      });
+      return worker;
+    }
+
+    return new Promise((resolve, reject) =>
+      this._waiters.push({ resolve, reject })
+    );
+  }
+
+  private _release(worker: WorkerHandle) {
+    const waiter = this._waiters.shift();
+    if (waiter) {
+      waiter.resolve(worker);
+    } else {
+      this._idle.push(worker);
+    }
+  }
+
+  private _handleMessage(worker: WorkerHandle, message: WorkerResponse) {
+    const pending = this._pending.get(worker);
+    this._pending.delete(worker);
+    this._release(worker);
+    if (!pending) return;
+
+    if (message.ok) {
+      pending.resolve(message.result);
+    } else {
+      const error = new Error(message.error.message);
+      error.name = message.error.name;
+      error.stack = message.error.stack;
+      pending.reject(error);
+    }
+  }
+
+  // 丢弃 worker，并为等待中的调用补充新的 worker
+  private _discard(worker: WorkerHandle) {
+    worker.terminate();
+    this._workers.delete(worker);
+    this._idle = this._idle.filter((idle) => idle !== worker);
+
+    const waiter = this._waiters.shift();
+    if (waiter && !this._terminated) {
+      this._acquire().then(waiter.resolve, waiter.reject);
+    }
+  }
+}
+
+// 调度器超时会以 Timeout 错误中止，其余情况视为取消
+function abortReason(signal: AbortSignal): unknown {
+  const reason = signal.reason;
+  return reason instanceof Error && reason.name !== "AbortError"
+    ? reason
+    : new Error("Task Cancelled");
+}
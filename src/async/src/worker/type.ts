@@ -0,0 +1,35 @@
+// 在 worker 中执行的任务：模块地址 + 导出函数名 + 可结构化克隆的参数
+export interface WorkerTaskSpec {
+  module: string | URL; // Node 中为文件路径或 file: URL，浏览器中为绝对 URL
+  export?: string; // 导出的函数名（默认 default）
+  args?: unknown[];
+}
+
+export interface WorkerPoolOptions {
+  size?: number; // 最多同时存在的 worker 数（默认 4）
+}
+
+// 主线程 -> worker
+export interface WorkerRequest {
+  id: number;
+  module: string;
+  exportName: string;
+  args: unknown[];
+}
+
+// worker -> 主线程
+export type WorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | {
+      id: number;
+      ok: false;
+      error: { name: string; message: string; stack?: string };
+    };
+
+// 对不同平台 worker 的统一封装
+export interface WorkerHandle {
+  post(message: WorkerRequest): void;
+  onMessage(listener: (message: WorkerResponse) => void): void;
+  onError(listener: (error: Error) => void): void;
+  terminate(): void;
+}
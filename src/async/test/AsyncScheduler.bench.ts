@@ -0,0 +1,39 @@
+import { bench, describe } from "vitest";
+import { AsyncScheduler } from "../src/AsyncScheduler";
+
+const TASK_COUNT = 20_000;
+const noop = async () => {};
+
+// 旧实现：每次插入都对整个数组排序，取消时线性查找
+function arrayQueue() {
+  const queue: { priority: number }[] = [];
+  const items = [];
+  for (let i = 0; i < TASK_COUNT; i++) {
+    const item = { priority: i % 10 };
+    items.push(item);
+    queue.push(item);
+    queue.sort((a, b) => b.priority - a.priority);
+  }
+  for (let i = 0; i < TASK_COUNT; i += 2) {
+    queue.splice(queue.indexOf(items[i]), 1);
+  }
+}
+
+describe(`enqueue and cancel ${TASK_COUNT} tasks`, () => {
+  bench(
+    "AsyncScheduler (heap)",
+    () => {
+      const scheduler = new AsyncScheduler();
+      const tasks = [];
+      for (let i = 0; i < TASK_COUNT; i++) {
+        tasks.push(scheduler.addTask(noop, { priority: i % 10 }));
+      }
+      for (let i = 0; i < TASK_COUNT; i += 2) {
+        scheduler.cancelTask(tasks[i].id);
+      }
+    },
+    { iterations: 5 }
+  );
+
+  bench("sorted array", arrayQueue, { iterations: 1 });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { AsyncScheduler } from "../src/AsyncScheduler";
+import { MemorySnapshotStorage } from "../src/snapshot/MemorySnapshotStorage";
 
 function delay(ms: number, value?: any) {
   return new Promise((resolve) => setTimeout(() => resolve(value), ms));
@@ -34,7 +35,7 @@ describe("AsyncScheduler", () => {
     scheduler.start();
 
     // 等待所有任务结束
-    await new Promise((resolve) => {
+    await new Promise<void>((resolve) => {
       scheduler.on("finish", resolve);
     });
 
@@ -53,7 +54,7 @@ describe("AsyncScheduler", () => {
 
     scheduler.start();
 
-    await new Promise((resolve) => scheduler.on("finish", resolve));
+    await new Promise<void>((resolve) => scheduler.on("finish", resolve));
 
     expect(order).toEqual([2, 3, 1]); // 优先级从高到低
   });
@@ -69,7 +70,7 @@ describe("AsyncScheduler", () => {
     scheduler.addTask(task);
     scheduler.start();
 
-    await new Promise((resolve) => scheduler.on("finish", resolve));
+    await new Promise<void>((resolve) => scheduler.on("finish", resolve));
 
     expect(task).toHaveBeenCalledTimes(2);
   });
@@ -91,7 +92,7 @@ describe("AsyncScheduler", () => {
     const onError = vi.fn();
     scheduler.on("error", onError);
 
-    await new Promise((resolve) => scheduler.on("finish", resolve));
+    await new Promise<void>((resolve) => scheduler.on("finish", resolve));
 
     expect(onError).toHaveBeenCalled();
     expect(onError.mock.calls[0][1].message).toBe("Timeout");
@@ -110,7 +111,7 @@ describe("AsyncScheduler", () => {
     scheduler.addTask(async () => "task2");
     scheduler.start();
 
-    await new Promise((resolve) => scheduler.on("finish", resolve));
+    await new Promise<void>((resolve) => scheduler.on("finish", resolve));
 
     expect(onStart).toHaveBeenCalledTimes(2);
     expect(onSuccess).toHaveBeenCalledTimes(2);
@@ -135,9 +136,1360 @@ describe("AsyncScheduler", () => {
 
     scheduler.start();
 
-    await new Promise((resolve) => scheduler.on("finish", resolve));
+    await new Promise<void>((resolve) => scheduler.on("finish", resolve));
 
     // 断言：在任何时刻，同时运行的任务数都不应超过并发限制 2
     expect(maxRunningTasks).toBe(2);
   });
 });
+
+describe("AsyncScheduler dependsOn", () => {
+  it("should run a task only after its dependencies succeed", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 3 });
+    const order: string[] = [];
+
+    const fetchTask = scheduler.addTask(async () => {
+      await delay(50);
+      order.push("fetch");
+      return 1;
+    });
+    const transformTask = scheduler.addTask(
+      async (_signal, { deps }) => {
+        order.push("transform");
+        return deps[0] + 1;
+      },
+      { dependsOn: [fetchTask], priority: 10 }
+    );
+    scheduler.addTask(
+      async (_signal, { deps }) => {
+        order.push("upload");
+        return deps[0] * 10;
+      },
+      { dependsOn: [transformTask] }
+    );
+
+    const results = await scheduler.start();
+
+    expect(order).toEqual(["fetch", "transform", "upload"]);
+    expect(results.map((result) => result.value)).toEqual([1, 2, 20]);
+  });
+
+  it("should resolve dependencies declared by id before the task is added", async () => {
+    const scheduler = new AsyncScheduler();
+    const order: string[] = [];
+
+    scheduler.addTask(async () => order.push("b"), { dependsOn: ["a"] });
+    scheduler.addTask(async () => order.push("a"), { id: "a" });
+
+    await scheduler.start();
+
+    expect(order).toEqual(["a", "b"]);
+  });
+
+  it("should fail dependents when a dependency fails", async () => {
+    const scheduler = new AsyncScheduler();
+    const onError = vi.fn();
+    scheduler.on("error", onError);
+
+    const dependent = vi.fn(async () => "never");
+    scheduler.addTask(
+      async () => {
+        throw new Error("boom");
+      },
+      { id: "a" }
+    );
+    const b = scheduler.addTask(dependent, { id: "b", dependsOn: ["a"] });
+    const c = scheduler.addTask(dependent, { dependsOn: [b] });
+
+    await scheduler.start();
+
+    expect(dependent).not.toHaveBeenCalled();
+    expect(b.state).toBe("failed");
+    expect(c.state).toBe("failed");
+    expect(onError.mock.calls.map((call) => call[0])).toEqual([
+      "a",
+      "b",
+      c.id,
+    ]);
+  });
+
+  it("should skip or continue according to dependencyFailure", async () => {
+    const scheduler = new AsyncScheduler({ dependencyFailure: "skip" });
+    const onSkip = vi.fn();
+    scheduler.on("skip", onSkip);
+
+    const a = scheduler.addTask(async () => {
+      throw new Error("boom");
+    });
+    const skipped = scheduler.addTask(async () => "skipped", {
+      dependsOn: [a],
+    });
+    const continued = scheduler.addTask(
+      async (_signal, { deps }) => deps,
+      { dependsOn: [a], dependencyFailure: "continue" }
+    );
+
+    await scheduler.start();
+
+    expect(skipped.state).toBe("cancelled");
+    expect(onSkip).toHaveBeenCalledWith(skipped.id, a.id);
+    expect(continued.state).toBe("succeeded");
+    expect(continued.result).toEqual([undefined]);
+  });
+
+  it("should treat a cancelled dependency as failed", async () => {
+    const scheduler = new AsyncScheduler();
+
+    const a = scheduler.addTask(async () => "a");
+    const b = scheduler.addTask(async () => "b", { dependsOn: [a] });
+    scheduler.cancelTask(a.id);
+
+    await scheduler.start();
+
+    expect(a.state).toBe("cancelled");
+    expect(b.state).toBe("failed");
+  });
+
+  it("should detect circular dependencies when adding a task", () => {
+    const scheduler = new AsyncScheduler();
+
+    scheduler.addTask(async () => "a", { id: "a", dependsOn: ["b"] });
+
+    expect(() =>
+      scheduler.addTask(async () => "b", { id: "b", dependsOn: ["a"] })
+    ).toThrow("Circular dependency detected: b -> a -> b");
+    expect(() =>
+      scheduler.addTask(async () => "c", { id: "c", dependsOn: ["c"] })
+    ).toThrow("Circular dependency detected");
+  });
+
+  it("should fail tasks whose dependency is never added", async () => {
+    const scheduler = new AsyncScheduler();
+
+    const task = scheduler.addTask(async () => "x", { dependsOn: ["missing"] });
+    await scheduler.start();
+
+    expect(task.state).toBe("failed");
+    expect(task.error.message).toBe('Unknown dependency "missing"');
+  });
+});
+
+describe("AsyncScheduler task handles", () => {
+  it("should expose a promise and live state on the returned handle", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+
+    const first = scheduler.addTask(async () => {
+      await delay(20);
+      return "first";
+    });
+    const second = scheduler.addTask(async () => "second");
+
+    expect(first.state).toBe("queued");
+    scheduler.start();
+    expect(first.state).toBe("running");
+    expect(second.state).toBe("queued");
+
+    await expect(first.promise).resolves.toBe("first");
+    await expect(second.promise).resolves.toBe("second");
+
+    expect(first.state).toBe("succeeded");
+    expect(first.startedAt).toBeGreaterThanOrEqual(first.createdAt);
+    expect(first.finishedAt! - first.startedAt!).toBeGreaterThanOrEqual(15);
+  });
+
+  it("should reject the handle promise when the task fails or is cancelled", async () => {
+    const scheduler = new AsyncScheduler({ retry: 1 });
+
+    const failed = scheduler.addTask(async () => {
+      throw new Error("boom");
+    });
+    const cancelled = scheduler.addTask(async () => "never");
+    scheduler.cancelTask(cancelled.id);
+
+    const onRetry = vi.fn(() => expect(failed.state).toBe("retrying"));
+    scheduler.on("retry", onRetry);
+    scheduler.start();
+
+    await expect(failed.promise).rejects.toThrow("boom");
+    await expect(cancelled.promise).rejects.toThrow("Task Cancelled");
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(failed.attempt).toBe(1);
+    expect(cancelled.state).toBe("cancelled");
+  });
+
+  it("should resolve start() with settled results in insertion order", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 2 });
+
+    const slow = scheduler.addTask(async () => {
+      await delay(30);
+      return "slow";
+    });
+    const failed = scheduler.addTask(async () => {
+      throw new Error("boom");
+    });
+    const fast = scheduler.addTask(async () => "fast");
+
+    const results = await scheduler.start();
+
+    expect(results.map((result) => [result.id, result.state])).toEqual([
+      [slow.id, "succeeded"],
+      [failed.id, "failed"],
+      [fast.id, "succeeded"],
+    ]);
+    expect(results[0].value).toBe("slow");
+    expect(results[1].error.message).toBe("boom");
+    expect(scheduler.asyncResults).toEqual(["fast", "slow"]);
+  });
+
+  it("should resolve start({ keyed: true }) with results keyed by task id", async () => {
+    const scheduler = new AsyncScheduler();
+
+    scheduler.addTask(async () => 1, { id: "a" });
+    scheduler.addTask(async () => 2, { id: "b" });
+
+    const results = await scheduler.start({ keyed: true });
+
+    expect(results.a).toEqual({ id: "a", state: "succeeded", value: 1 });
+    expect(results.b.value).toBe(2);
+  });
+});
+
+describe("AsyncScheduler retry policy", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should wait for the backoff delay before retrying", async () => {
+    vi.useFakeTimers();
+    const scheduler = new AsyncScheduler({
+      retry: { retries: 2, delay: 100, backoff: "exponential" },
+    });
+    const onRetry = vi.fn();
+    scheduler.on("retry", onRetry);
+
+    const fn = vi.fn(async () => {
+      throw new Error("flaky");
+    });
+    const task = scheduler.addTask(fn);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(task.state).toBe("retrying");
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(task.state).toBe("failed");
+    expect(onRetry.mock.calls.map((call) => [call[1], call[3]])).toEqual([
+      [1, 100],
+      [2, 200],
+    ]);
+  });
+
+  it("should stop retrying when retryIf returns false", async () => {
+    const retryIf = vi.fn((error: any) => error.status !== 404);
+    const scheduler = new AsyncScheduler({ retry: { retries: 3, retryIf } });
+
+    const fn = vi.fn(async () => {
+      throw Object.assign(new Error("Not Found"), { status: 404 });
+    });
+    const task = scheduler.addTask(fn);
+    await scheduler.start();
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(retryIf).toHaveBeenCalledWith(expect.any(Error), 1);
+    expect(task.state).toBe("failed");
+  });
+
+  it("should let a per-task retry of 0 disable the global retry", async () => {
+    const scheduler = new AsyncScheduler({ retry: 3 });
+
+    const fn = vi.fn(async () => {
+      throw new Error("fail");
+    });
+    scheduler.addTask(fn, { retry: 0 });
+    await scheduler.start();
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel a task waiting for its retry delay", async () => {
+    vi.useFakeTimers();
+    const scheduler = new AsyncScheduler({ retry: { retries: 1, delay: 1000 } });
+
+    const fn = vi.fn(async () => {
+      throw new Error("fail");
+    });
+    const task = scheduler.addTask(fn);
+    const finished = scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.cancelTask(task.id);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const results = await finished;
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(results[0].state).toBe("cancelled");
+  });
+});
+
+describe("AsyncScheduler rate limiting", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not start more tasks than the rate limit allows", async () => {
+    const scheduler = new AsyncScheduler({
+      concurrency: 10,
+      rateLimit: { limit: 2, interval: 1000 },
+    });
+    const onThrottled = vi.fn();
+    scheduler.on("throttled", onThrottled);
+
+    const fn = vi.fn(async () => "ok");
+    for (let i = 0; i < 5; i++) scheduler.addTask(fn);
+    const finished = scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats()).toMatchObject({
+      queued: 3,
+      running: 0,
+      blockedBy: "rateLimit",
+    });
+    expect(onThrottled).toHaveBeenCalledWith(expect.any(String), null, 500);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fn).toHaveBeenCalledTimes(5);
+    await finished;
+  });
+
+  it("should limit each rateLimitKey independently", async () => {
+    const scheduler = new AsyncScheduler({
+      concurrency: 10,
+      keyedRateLimits: { github: { limit: 1, interval: 1000 } },
+    });
+
+    const github = vi.fn(async () => "github");
+    const other = vi.fn(async () => "other");
+    scheduler.addTask(github, { rateLimitKey: "github", priority: 1 });
+    scheduler.addTask(github, { rateLimitKey: "github", priority: 1 });
+    scheduler.addTask(other, { rateLimitKey: "other" });
+    scheduler.addTask(other);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(github).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats().throttled).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(github).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats().throttled).toBe(0);
+  });
+
+  it("should report concurrency as the blocker when all slots are busy", async () => {
+    const scheduler = new AsyncScheduler({
+      concurrency: 1,
+      rateLimit: { limit: 10, interval: 1000 },
+    });
+
+    scheduler.addTask(() => delay(100));
+    scheduler.addTask(() => delay(100));
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStats()).toMatchObject({
+      queued: 1,
+      running: 1,
+      throttled: 0,
+      blockedBy: "concurrency",
+    });
+    await vi.advanceTimersByTimeAsync(200);
+  });
+});
+
+describe("AsyncScheduler queue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should run tasks with equal priority in insertion order", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    const order: number[] = [];
+
+    for (let i = 0; i < 10; i++) {
+      scheduler.addTask(async () => order.push(i), { priority: i % 2 });
+    }
+    await scheduler.start();
+
+    expect(order).toEqual([1, 3, 5, 7, 9, 0, 2, 4, 6, 8]);
+  });
+
+  it("should boost long-waiting tasks when aging is enabled", async () => {
+    vi.useFakeTimers();
+    const scheduler = new AsyncScheduler({
+      concurrency: 1,
+      aging: { interval: 100, step: 1 },
+    });
+    const order: string[] = [];
+
+    scheduler.addTask(async () => order.push("low"), { priority: 0 });
+    await vi.advanceTimersByTimeAsync(500);
+    scheduler.addTask(async () => order.push("high"), { priority: 3 });
+    scheduler.addTask(async () => order.push("higher"), { priority: 6 });
+
+    await scheduler.start();
+
+    // low 已排队 500ms，有效优先级为 5，超过 high（3）但不及 higher（6）
+    expect(order).toEqual(["higher", "low", "high"]);
+  });
+
+  it("should handle tens of thousands of queued tasks", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 50 });
+    const tasks = [];
+    for (let i = 0; i < 30_000; i++) {
+      tasks.push(scheduler.addTask(async () => i, { priority: i % 7 }));
+    }
+    for (let i = 0; i < tasks.length; i += 3) {
+      scheduler.cancelTask(tasks[i].id);
+    }
+
+    const results = await scheduler.start();
+
+    expect(results.filter((r) => r.state === "succeeded")).toHaveLength(
+      20_000
+    );
+    expect(results.filter((r) => r.state === "cancelled")).toHaveLength(
+      10_000
+    );
+  });
+});
+
+describe("AsyncScheduler events", () => {
+  it("should support off and once", async () => {
+    const scheduler = new AsyncScheduler();
+    const onStart = vi.fn();
+    const onceStart = vi.fn();
+
+    scheduler.on("start", onStart);
+    scheduler.once("start", onceStart);
+    scheduler.off("start", onStart);
+
+    scheduler.addTask(async () => 1);
+    scheduler.addTask(async () => 2);
+    await scheduler.start();
+
+    expect(onStart).not.toHaveBeenCalled();
+    expect(onceStart).toHaveBeenCalledTimes(1);
+  });
+
+  it("should emit progress reported through the task context", async () => {
+    const scheduler = new AsyncScheduler();
+    const onProgress = vi.fn();
+    scheduler.on("progress", onProgress);
+
+    const task = scheduler.addTask(async (_signal, { progress }) => {
+      progress(0.5);
+      progress(1);
+      return "done";
+    });
+    await scheduler.start();
+
+    expect(onProgress.mock.calls).toEqual([
+      [task.id, 0.5],
+      [task.id, 1],
+    ]);
+    expect(task.progress).toBe(1);
+  });
+
+  it("should emit cancel and timeout events", async () => {
+    const scheduler = new AsyncScheduler({ timeout: 20 });
+    const onCancel = vi.fn();
+    const onTimeout = vi.fn();
+    const onError = vi.fn();
+    scheduler.on("cancel", onCancel);
+    scheduler.on("timeout", onTimeout);
+    scheduler.on("error", onError);
+
+    const slow = scheduler.addTask(() => delay(100));
+    const running = scheduler.addTask(() => delay(10), { timeout: 0 });
+    scheduler.start();
+    scheduler.cancelTask(running.id);
+    await scheduler.start();
+
+    expect(onCancel).toHaveBeenCalledWith(running.id, expect.any(Error));
+    expect(onTimeout).toHaveBeenCalledWith(slow.id, 20);
+    expect(onError.mock.calls.map((call) => call[0])).toEqual([slow.id]);
+  });
+
+  it("should emit paused, resumed, empty and idle", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    const events: string[] = [];
+    for (const type of ["paused", "resumed", "empty", "idle"] as const) {
+      scheduler.on(type, () => events.push(type));
+    }
+
+    scheduler.addTask(() => delay(10));
+    scheduler.addTask(() => delay(10));
+    scheduler.pause();
+    scheduler.pause();
+    const finished = scheduler.start();
+    scheduler.resume();
+    await finished;
+
+    expect(events).toEqual(["paused", "resumed", "empty", "idle"]);
+  });
+
+  it("should stream events with events()", async () => {
+    const scheduler = new AsyncScheduler();
+    const stream = scheduler.events({ types: ["success", "finish"] });
+
+    scheduler.addTask(async () => "a");
+    scheduler.start();
+
+    const types: string[] = [];
+    for await (const event of stream) {
+      types.push(event.type);
+      if (event.type === "finish") break;
+    }
+
+    expect(types).toEqual(["success", "finish"]);
+  });
+
+  it("should report a stats snapshot", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+
+    scheduler.addTask(() => delay(20, "ok"));
+    scheduler.addTask(async () => {
+      throw new Error("boom");
+    });
+    const cancelled = scheduler.addTask(async () => "never");
+    scheduler.addTask(async () => "later", { dependsOn: ["missing"] });
+    scheduler.cancelTask(cancelled.id);
+
+    expect(scheduler.getStats()).toMatchObject({
+      total: 4,
+      waiting: 1,
+      queued: 2,
+      running: 0,
+      cancelled: 1,
+      throughput: 0,
+    });
+
+    scheduler.start();
+    expect(scheduler.getStats()).toMatchObject({ queued: 1, running: 1 });
+
+    await scheduler.start();
+    const stats = scheduler.getStats();
+    expect(stats).toMatchObject({
+      waiting: 0,
+      queued: 0,
+      running: 0,
+      succeeded: 1,
+      failed: 2,
+      cancelled: 1,
+    });
+    expect(stats.throughput).toBeGreaterThan(0);
+  });
+});
+
+describe("AsyncScheduler scheduled tasks", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should run delayed and runAt tasks when they are due", async () => {
+    const scheduler = new AsyncScheduler();
+    const delayed = vi.fn(async () => "delayed");
+    const timed = vi.fn(async () => "timed");
+
+    const task = scheduler.addTask(delayed, { delay: 1000 });
+    scheduler.addTask(timed, { runAt: new Date(Date.now() + 2000) });
+    const finished = scheduler.start();
+
+    expect(task.state).toBe("scheduled");
+    expect(scheduler.getStats().scheduled).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(delayed).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(delayed).toHaveBeenCalledTimes(1);
+    expect(timed).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(timed).toHaveBeenCalledTimes(1);
+    await expect(finished).resolves.toHaveLength(2);
+  });
+
+  it("should hold due tasks while paused", async () => {
+    const scheduler = new AsyncScheduler();
+    const fn = vi.fn(async () => "ok");
+
+    scheduler.addTask(fn, { delay: 100 });
+    scheduler.start();
+    scheduler.pause();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fn).not.toHaveBeenCalled();
+
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should repeat tasks every interval until cancelled", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    let count = 0;
+    const job = scheduler.addTask(async () => ++count, { every: 1000 });
+
+    await vi.advanceTimersByTimeAsync(3500);
+    expect(count).toBe(3);
+    expect(job.state).toBe("scheduled");
+    expect(job.result).toBe(3);
+
+    scheduler.cancelTask(job.id);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(count).toBe(3);
+    await expect(job.promise).rejects.toThrow("Task Cancelled");
+  });
+
+  it("should follow cron expressions", async () => {
+    vi.setSystemTime(new Date(2024, 0, 1, 10, 7));
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    const fn = vi.fn(async () => "ok");
+
+    scheduler.addTask(fn, { every: "*/15 * * * *" });
+
+    await vi.advanceTimersByTimeAsync(7 * 60_000);
+    expect(fn).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(30 * 60_000);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should apply the overlap policy to recurring tasks", async () => {
+    const runs = { skip: 0, queue: 0, allow: 0 };
+    const scheduler = new AsyncScheduler({ autoStart: true, concurrency: 10 });
+
+    for (const overlap of ["skip", "queue", "allow"] as const) {
+      scheduler.addTask(
+        async () => {
+          runs[overlap]++;
+          await delay(2500);
+        },
+        { every: 1000, overlap }
+      );
+    }
+
+    // 第 1 秒开始执行，持续 2.5 秒；第 2、3 秒到点时上一次仍未结束
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(runs).toEqual({ skip: 1, queue: 1, allow: 3 });
+
+    // 3.5 秒时首次执行结束：queue 立即补跑一次
+    await vi.advanceTimersByTimeAsync(500);
+    expect(runs).toEqual({ skip: 1, queue: 2, allow: 3 });
+
+    // 4 秒时到点：skip 的上一次已结束，可以执行
+    await vi.advanceTimersByTimeAsync(500);
+    expect(runs.skip).toBe(2);
+
+    const aborted = { ...runs };
+    scheduler.abortAll();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(runs).toEqual(aborted);
+  });
+
+  it("should cancel scheduled tasks on abortAll", async () => {
+    const scheduler = new AsyncScheduler();
+    const fn = vi.fn(async () => "ok");
+
+    const delayed = scheduler.addTask(fn, { delay: 1000 });
+    const recurring = scheduler.addTask(fn, { every: 500 });
+    scheduler.start();
+    scheduler.abortAll();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fn).not.toHaveBeenCalled();
+    expect(delayed.state).toBe("cancelled");
+    expect(recurring.state).toBe("cancelled");
+  });
+
+  it("should abort an autoStart scheduler that was never started", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    const fn = vi.fn(async () => "ok");
+    let signal!: AbortSignal;
+
+    const running = scheduler.addTask(async (s) => {
+      signal = s;
+      await delay(5000);
+    });
+    const delayed = scheduler.addTask(fn, { delay: 1000 });
+    const recurring = scheduler.addTask(fn, { every: 500 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    scheduler.abortAll();
+    expect(signal.aborted).toBe(true);
+    expect(running.state).toBe("cancelled");
+    expect(delayed.state).toBe("cancelled");
+    expect(recurring.state).toBe("cancelled");
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe("AsyncScheduler map", () => {
+  it("should pull input lazily and yield results in input order", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 2 });
+    let pulled = 0;
+    let maxAhead = 0;
+    let yielded = 0;
+
+    async function* source() {
+      for (let i = 0; i < 10; i++) {
+        pulled++;
+        maxAhead = Math.max(maxAhead, pulled - yielded);
+        yield i;
+      }
+    }
+
+    const results: number[] = [];
+    for await (const value of scheduler.map(source(), async (n) => {
+      await delay(n % 2 === 0 ? 20 : 5);
+      return n * 2;
+    })) {
+      yielded++;
+      results.push(value);
+    }
+
+    expect(results).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+    expect(maxAhead).toBeLessThanOrEqual(3);
+    expect(scheduler.getStats()).toMatchObject({ total: 0, succeeded: 10 });
+    expect(scheduler.asyncResults).toEqual([]);
+  });
+
+  it("should yield in completion order when ordered is false", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 3 });
+
+    const results: number[] = [];
+    for await (const value of scheduler.map(
+      [30, 10, 20],
+      async (ms) => {
+        await delay(ms);
+        return ms;
+      },
+      { ordered: false }
+    )) {
+      results.push(value);
+    }
+
+    expect(results).toEqual([10, 20, 30]);
+  });
+
+  it("should cancel in-flight tasks and close the source on break", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 3 });
+    const onCancel = vi.fn();
+    scheduler.on("cancel", onCancel);
+    const closed = vi.fn();
+
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        closed();
+      }
+    }
+
+    for await (const value of scheduler.map(source(), async (n) => {
+      await delay(n === 0 ? 0 : 50);
+      return n;
+    })) {
+      expect(value).toBe(0);
+      break;
+    }
+
+    expect(closed).toHaveBeenCalled();
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it("should throw the first failure and stop pulling", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    const closed = vi.fn();
+
+    async function* source() {
+      try {
+        yield 1;
+        yield 2;
+        yield 3;
+      } finally {
+        closed();
+      }
+    }
+
+    const seen: number[] = [];
+    await expect(async () => {
+      for await (const value of scheduler.map(source(), async (n) => {
+        if (n === 2) throw new Error("bad item");
+        return n;
+      })) {
+        seen.push(value);
+      }
+    }).rejects.toThrow("bad item");
+
+    expect(seen).toEqual([1]);
+    expect(closed).toHaveBeenCalled();
+  });
+
+  it("should stop when the signal aborts", async () => {
+    const scheduler = new AsyncScheduler();
+    const controller = new AbortController();
+
+    const iterator = scheduler.map(
+      [1, 2, 3],
+      async (n, signal) => {
+        await delay(50);
+        if (signal.aborted) throw new Error("aborted");
+        return n;
+      },
+      { signal: controller.signal }
+    );
+
+    const next = iterator.next();
+    controller.abort();
+
+    await expect(next).rejects.toThrow("Task Cancelled");
+  });
+});
+
+describe("AsyncScheduler deduplication and cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should share one execution between tasks with the same key", async () => {
+    const scheduler = new AsyncScheduler();
+    const fn = vi.fn(async () => {
+      await delay(10);
+      return "data";
+    });
+
+    const first = scheduler.addTask(fn, { key: "/api/user" });
+    const second = scheduler.addTask(fn, { key: "/api/user" });
+    const other = scheduler.addTask(fn, { key: "/api/repo" });
+
+    expect(second).toBe(first);
+    const results = await scheduler.start();
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(results).toHaveLength(2);
+    await expect(second.promise).resolves.toBe("data");
+    expect(other).not.toBe(first);
+  });
+
+  it("should raise the priority of a queued duplicate", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    const order: string[] = [];
+
+    scheduler.addTask(async () => order.push("a"), { priority: 1 });
+    scheduler.addTask(async () => order.push("b"), { key: "b" });
+    scheduler.addTask(async () => order.push("b2"), { key: "b", priority: 5 });
+    await scheduler.start();
+
+    expect(order).toEqual(["b", "a"]);
+  });
+
+  it("should run again after the previous execution with the key settled", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    const fn = vi.fn(async () => "data");
+
+    await scheduler.addTask(fn, { key: "k" }).promise;
+    await scheduler.addTask(fn, { key: "k" }).promise;
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should resolve repeated keys from the cache within the ttl", async () => {
+    vi.useFakeTimers();
+    const scheduler = new AsyncScheduler({
+      autoStart: true,
+      concurrency: 1,
+      cache: { ttl: 1000 },
+    });
+    const onCacheHit = vi.fn();
+    scheduler.on("cacheHit", onCacheHit);
+    const fn = vi.fn(async () => "data");
+
+    await scheduler.addTask(fn, { key: "k" }).promise;
+
+    // 占满唯一的并发槽位，缓存命中不需要等待
+    scheduler.addTask(() => delay(5000));
+    const hit = scheduler.addTask(fn, { key: "k" });
+    expect(hit.state).toBe("succeeded");
+    await expect(hit.promise).resolves.toBe("data");
+    expect(onCacheHit).toHaveBeenCalledWith(hit.id, "k");
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.addTask(fn, { key: "k" });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache failures and should support invalidation", async () => {
+    const scheduler = new AsyncScheduler({
+      autoStart: true,
+      cache: { ttl: 60_000 },
+    });
+    let calls = 0;
+    const fn = async () => {
+      calls++;
+      if (calls === 1) throw new Error("boom");
+      return calls;
+    };
+
+    await scheduler.addTask(fn, { key: "k" }).promise.catch(() => {});
+    expect(await scheduler.addTask(fn, { key: "k" }).promise).toBe(2);
+    expect(await scheduler.addTask(fn, { key: "k" }).promise).toBe(2);
+
+    scheduler.invalidate("k");
+    expect(await scheduler.addTask(fn, { key: "k" }).promise).toBe(3);
+
+    scheduler.invalidate();
+    expect(await scheduler.addTask(fn, { key: "k", cacheTtl: 0 }).promise).toBe(
+      4
+    );
+    expect(await scheduler.addTask(fn, { key: "k" }).promise).toBe(5);
+  });
+
+  it("should use a custom cache store", async () => {
+    const store = {
+      get: vi.fn(() => ({ value: "from store", expiresAt: Infinity })),
+      set: vi.fn(),
+      delete: vi.fn(),
+      clear: vi.fn(),
+    };
+    const scheduler = new AsyncScheduler({ cache: { ttl: 1000, store } });
+    const fn = vi.fn(async () => "fresh");
+
+    const task = scheduler.addTask(fn, { key: "k" });
+
+    await expect(task.promise).resolves.toBe("from store");
+    expect(store.get).toHaveBeenCalledWith("k");
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should ignore expired entries from a custom cache store", async () => {
+    const store = {
+      get: vi.fn(() => ({ value: "stale", expiresAt: Date.now() - 1 })),
+      set: vi.fn(),
+      delete: vi.fn(),
+      clear: vi.fn(),
+    };
+    const scheduler = new AsyncScheduler({
+      cache: { ttl: 1000, store },
+      autoStart: true,
+    });
+
+    const task = scheduler.addTask(async () => "fresh", { key: "k" });
+
+    await expect(task.promise).resolves.toBe("fresh");
+    expect(store.delete).toHaveBeenCalledWith("k");
+    expect(store.set).toHaveBeenCalledWith("k", {
+      value: "fresh",
+      expiresAt: expect.any(Number),
+    });
+  });
+});
+
+describe("AsyncScheduler named queues", () => {
+  it("should share concurrency between queues by weight", async () => {
+    const scheduler = new AsyncScheduler({
+      concurrency: 1,
+      queues: { heavy: { weight: 1 }, light: { weight: 2 } },
+    });
+    const order: string[] = [];
+    const add = (queue: string, count: number) => {
+      for (let i = 0; i < count; i++) {
+        scheduler.addTask(
+          async () => {
+            order.push(queue);
+          },
+          { queue }
+        );
+      }
+    };
+
+    // heavy 先塞满队列，也不能饿死 light
+    add("heavy", 6);
+    add("light", 6);
+    await scheduler.start();
+
+    expect(order.slice(0, 6).filter((q) => q === "light")).toHaveLength(4);
+    expect(order).toHaveLength(12);
+  });
+
+  it("should respect per-queue concurrency caps", async () => {
+    vi.useFakeTimers();
+    try {
+      const scheduler = new AsyncScheduler({
+        concurrency: 4,
+        queues: { tenantA: { concurrency: 1 } },
+      });
+      for (let i = 0; i < 3; i++) {
+        scheduler.addTask(() => delay(100), { queue: "tenantA" });
+        scheduler.addTask(() => delay(100), { queue: "tenantB" });
+      }
+      scheduler.start();
+
+      expect(scheduler.getStats().queues).toMatchObject({
+        tenantA: { running: 1, queued: 2, concurrency: 1 },
+        tenantB: { running: 3, queued: 0, concurrency: Infinity },
+      });
+
+      await vi.advanceTimersByTimeAsync(300);
+      expect(scheduler.getStats().queues.tenantA).toMatchObject({
+        running: 0,
+        succeeded: 3,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should pause, resume and abort a single queue", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 2 });
+    const a = vi.fn(async () => "a");
+    const b = vi.fn(async () => "b");
+
+    scheduler.pauseQueue("a");
+    const taskA = scheduler.addTask(a, { queue: "a" });
+    scheduler.addTask(b, { queue: "b" });
+    scheduler.start();
+    await vi.waitFor(() => expect(b).toHaveBeenCalled());
+    expect(a).not.toHaveBeenCalled();
+    expect(scheduler.getStats().queues.a).toMatchObject({
+      paused: true,
+      queued: 1,
+    });
+
+    scheduler.resumeQueue("a");
+    await expect(taskA.promise).resolves.toBe("a");
+
+    const running = scheduler.addTask(() => delay(5000), { queue: "a" });
+    const queued = scheduler.addTask(a, { queue: "a" });
+    const other = scheduler.addTask(b, { queue: "b" });
+    scheduler.pauseQueue("b");
+    scheduler.resumeQueue("b");
+    await vi.waitFor(() => expect(running.state).toBe("running"));
+
+    scheduler.abortQueue("a");
+    await expect(running.promise).rejects.toThrow("Task Cancelled");
+    await expect(queued.promise).rejects.toThrow("Task Cancelled");
+    await expect(other.promise).resolves.toBe("b");
+    expect(scheduler.getStats().queues.a.cancelled).toBe(2);
+  });
+
+  it("should reject non-positive queue weights", () => {
+    expect(
+      () => new AsyncScheduler({ queues: { bad: { weight: 0 } } })
+    ).toThrow('Queue "bad" weight must be a positive number');
+  });
+});
+
+describe("AsyncScheduler persistence", () => {
+  it("should snapshot pending named tasks and restore them", async () => {
+    const storage = new MemorySnapshotStorage();
+    const first = new AsyncScheduler({ persistence: { storage } });
+    first.registerTask("email", async (to: string) => `sent to ${to}`);
+
+    const a = first.addNamedTask("email", "a@example.com", {
+      id: "a",
+      priority: 2,
+      queue: "mail",
+    });
+    first.addNamedTask("email", "b@example.com", {
+      id: "b",
+      dependsOn: [a],
+    });
+    first.addNamedTask("email", "c@example.com", {
+      id: "c",
+      delay: 60_000,
+    });
+    first.addTask(async () => "anonymous"); // 未注册的任务不会被保存
+
+    await first.save();
+    const saved = (await storage.load())!;
+    expect(saved.tasks).toMatchObject([
+      { id: "a", payload: "a@example.com", priority: 2, queue: "mail" },
+      { id: "b", dependsOn: ["a"] },
+      { id: "c", runAt: expect.any(Number) },
+    ]);
+
+    // 模拟进程重启
+    const second = new AsyncScheduler({ persistence: { storage } });
+    const handler = vi.fn(async (to: string) => `sent to ${to}`);
+    second.registerTask("email", handler);
+    const restored = await second.restore();
+    expect(restored.map((task) => task.id)).toEqual(["a", "b", "c"]);
+    expect(restored[2].state).toBe("scheduled");
+
+    second.cancelTask("c");
+    const results = await second.start({ keyed: true });
+    expect(results.b).toMatchObject({
+      state: "succeeded",
+      value: "sent to b@example.com",
+    });
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    // 结束后自动保存，快照中只剩下未结束的任务
+    await vi.waitFor(async () =>
+      expect((await storage.load())!.tasks).toEqual([])
+    );
+  });
+
+  it("should keep attempt counts and re-run interrupted tasks", async () => {
+    const storage = new MemorySnapshotStorage();
+    const first = new AsyncScheduler({
+      autoStart: true,
+      retry: { retries: 2, delay: 60_000 },
+      persistence: { storage },
+    });
+    first.registerTask("flaky", async () => {
+      throw new Error("boom");
+    });
+    first.registerTask("slow", () => new Promise(() => {}));
+
+    first.addNamedTask("flaky", null, { id: "flaky" });
+    first.addNamedTask("slow", null, { id: "slow" });
+
+    await vi.waitFor(async () =>
+      expect((await storage.load())!.tasks).toMatchObject([
+        { id: "flaky", attempt: 1 },
+        { id: "slow", attempt: 0 },
+      ])
+    );
+
+    const second = new AsyncScheduler({ retry: 2, persistence: { storage } });
+    const attempts: number[] = [];
+    second.registerTask("flaky", async (_, __, context) => {
+      attempts.push(context.attempt);
+      throw new Error("boom");
+    });
+    second.registerTask("slow", async () => "done");
+    await second.restore();
+
+    const results = await second.start({ keyed: true });
+    expect(attempts).toEqual([1, 2]);
+    expect(results.flaky.state).toBe("failed");
+    expect(results.slow).toMatchObject({ state: "succeeded", value: "done" });
+  });
+
+  it("should reject unregistered tasks", async () => {
+    const storage = new MemorySnapshotStorage();
+    await storage.save({
+      version: 1,
+      savedAt: 0,
+      tasks: [
+        {
+          id: "x",
+          name: "missing",
+          payload: null,
+          priority: 0,
+          attempt: 0,
+          queue: "default",
+          dependsOn: [],
+        },
+      ],
+    });
+    const scheduler = new AsyncScheduler({ persistence: { storage } });
+
+    expect(() => scheduler.addNamedTask("missing", null)).toThrow(
+      'Task "missing" is not registered'
+    );
+    await expect(scheduler.restore()).rejects.toThrow(
+      'Task "missing" is not registered'
+    );
+    expect(() => new AsyncScheduler().snapshot()).not.toThrow();
+    await expect(new AsyncScheduler().save()).rejects.toThrow(
+      "persistence.storage must be provided"
+    );
+  });
+});
+
+describe("AsyncScheduler lifecycle", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should settle every task as cancelled on abortAll", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    const running = scheduler.addTask(() => delay(1000, "late"));
+    const queued = scheduler.addTask(() => delay(1000));
+    const done = scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    scheduler.abortAll();
+    expect(running.state).toBe("cancelled");
+    expect(queued.state).toBe("cancelled");
+
+    const results = await done;
+    expect(results.map((r) => r.state)).toEqual(["cancelled", "cancelled"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(running.state).toBe("cancelled");
+    expect(scheduler.getStats()).toMatchObject({ running: 0, cancelled: 2 });
+  });
+
+  it("should not exceed concurrency when restarted while aborted tasks settle", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    let active = 0;
+    let maxActive = 0;
+    const track = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(100);
+      active--;
+    };
+
+    // 忽略 abort 信号、仍在运行的任务
+    scheduler.addTask(() => delay(50));
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.abortAll();
+
+    scheduler.resume();
+    scheduler.addTask(track);
+    scheduler.addTask(track);
+    const done = scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(300);
+    await done;
+    expect(maxActive).toBe(1);
+    expect(scheduler.getStats().running).toBe(0);
+  });
+
+  it("should resolve onIdle once all work has finished", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    await expect(scheduler.onIdle()).resolves.toBeUndefined();
+
+    const onIdle = vi.fn();
+    scheduler.addTask(() => delay(100));
+    scheduler.onIdle().then(onIdle);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(onIdle).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onIdle).toHaveBeenCalled();
+  });
+
+  it("should reject new tasks while draining and let in-flight tasks finish", async () => {
+    const scheduler = new AsyncScheduler({ concurrency: 1 });
+    const a = scheduler.addTask(() => delay(100, "a"));
+    const b = scheduler.addTask(() => delay(100, "b"));
+    const recurring = vi.fn(async () => {});
+    scheduler.addTask(recurring, { every: 50 });
+
+    const drained = scheduler.drain();
+    expect(() => scheduler.addTask(async () => {})).toThrow(
+      "Scheduler is draining"
+    );
+
+    await vi.advanceTimersByTimeAsync(200);
+    await drained;
+    expect(a.state).toBe("succeeded");
+    expect(b.state).toBe("succeeded");
+    expect(recurring).not.toHaveBeenCalled();
+
+    // drain 结束后可以继续添加任务
+    const c = scheduler.addTask(async () => "c", { id: "c" });
+    expect(c.state).toBe("queued");
+  });
+
+  it("should abort stragglers after the drain timeout", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    const fast = scheduler.addTask(() => delay(50));
+    const slow = scheduler.addTask(() => delay(5000));
+
+    const closed = scheduler.close({ timeout: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    await closed;
+
+    expect(fast.state).toBe("succeeded");
+    expect(slow.state).toBe("cancelled");
+    expect(() => scheduler.addTask(async () => {})).toThrow(
+      "Scheduler is closed"
+    );
+  });
+
+  it("should run new tasks after a timed-out drain", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true });
+    const slow = scheduler.addTask(() => delay(5000));
+
+    const drained = scheduler.drain({ timeout: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    await drained;
+    expect(slow.state).toBe("cancelled");
+
+    const next = scheduler.addTask(() => delay(10, "next"));
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(next.promise).resolves.toBe("next");
+  });
+});
+
+describe("AsyncScheduler retain", () => {
+  it("should release settled tasks when retain is false", async () => {
+    const scheduler = new AsyncScheduler({ autoStart: true, retain: false });
+
+    for (let i = 0; i < 100; i++) {
+      await scheduler.addTask(async () => i).promise;
+    }
+    await Promise.resolve();
+
+    expect(scheduler.getStats()).toMatchObject({ total: 0, succeeded: 100 });
+    expect(scheduler.asyncResults).toEqual([]);
+  });
+
+  it("should keep settled tasks until their dependents settle", async () => {
+    vi.useFakeTimers();
+    try {
+      const scheduler = new AsyncScheduler({ autoStart: true, retain: false });
+      const a = scheduler.addTask(async () => "a", { id: "a" });
+      const b = scheduler.addTask(() => delay(100, "b"), { id: "b" });
+      const c = scheduler.addTask(async (_signal, { deps }) => deps, {
+        dependsOn: [a, b],
+      });
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(a.state).toBe("succeeded");
+      expect(scheduler.getStats().total).toBe(3);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(c.promise).resolves.toEqual(["a", "b"]);
+      expect(scheduler.getStats().total).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
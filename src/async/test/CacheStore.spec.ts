@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MemoryCacheStore } from "../src/CacheStore";
+
+describe("MemoryCacheStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should drop expired entries when read", () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore();
+
+    store.set("k", { value: 1, expiresAt: Date.now() + 100 });
+    expect(store.get("k")?.value).toBe(1);
+
+    vi.advanceTimersByTime(100);
+    expect(store.get("k")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it("should delete and clear entries", () => {
+    const store = new MemoryCacheStore();
+    store.set("a", { value: 1, expiresAt: Infinity });
+    store.set("b", { value: 2, expiresAt: Infinity });
+
+    store.delete("a");
+    expect(store.get("a")).toBeUndefined();
+    store.clear();
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { fileURLToPath } from "node:url";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { AsyncScheduler } from "../src/AsyncScheduler";
+import { NodeWorkerPool } from "../src/worker/NodeWorkerPool";
+
+const fixture = fileURLToPath(new URL("./fixtures/cpu.mjs", import.meta.url));
+
+// 记录创建次数，可让前几次创建失败
+class CountingWorkerPool extends NodeWorkerPool {
+  public spawned = 0;
+  public failures = 0;
+
+  protected async _spawn() {
+    this.spawned++;
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("spawn failed");
+    }
+    return super._spawn();
+  }
+}
+
+describe("NodeWorkerPool", () => {
+  let pool: NodeWorkerPool;
+
+  afterEach(() => {
+    pool.terminate();
+  });
+
+  it("should call the exported function with the given args", async () => {
+    pool = new NodeWorkerPool({ size: 2 });
+
+    await expect(
+      pool.run({ module: fixture, export: "add", args: [1, 2] })
+    ).resolves.toBe(3);
+    await expect(pool.run({ module: fixture, args: [4] })).resolves.toBe(16);
+    expect(pool.size).toBe(1);
+  });
+
+  it("should rethrow errors from the worker", async () => {
+    pool = new NodeWorkerPool();
+
+    const error = await pool
+      .run({ module: fixture, export: "fail", args: ["bad input"] })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("TypeError");
+    expect(error.message).toBe("bad input");
+    await expect(
+      pool.run({ module: fixture, export: "missing" })
+    ).rejects.toThrow('Export "missing"');
+  });
+
+  it("should terminate a busy worker when aborted", async () => {
+    pool = new NodeWorkerPool({ size: 1 });
+    const controller = new AbortController();
+
+    const running = pool.run(
+      { module: fixture, export: "spin" },
+      controller.signal
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+
+    await expect(running).rejects.toThrow("Task Cancelled");
+    expect(pool.size).toBe(0);
+    await expect(
+      pool.run({ module: fixture, export: "add", args: [2, 3] })
+    ).resolves.toBe(5);
+  });
+
+  it("should not spawn more workers than its size for concurrent runs", async () => {
+    const counting = new CountingWorkerPool({ size: 1 });
+    pool = counting;
+
+    await expect(
+      Promise.all(
+        [1, 2, 3].map((n) => pool.run({ module: fixture, args: [n] }))
+      )
+    ).resolves.toEqual([1, 4, 9]);
+    expect(counting.spawned).toBe(1);
+    expect(pool.size).toBe(1);
+  });
+
+  it("should release the slot when spawning a worker fails", async () => {
+    const counting = new CountingWorkerPool({ size: 1 });
+    counting.failures = 1;
+    pool = counting;
+
+    const [first, second] = await Promise.allSettled([
+      pool.run({ module: fixture, args: [2] }),
+      pool.run({ module: fixture, args: [3] }),
+    ]);
+    expect(first).toMatchObject({ status: "rejected" });
+    expect((first as PromiseRejectedResult).reason.message).toBe(
+      "spawn failed"
+    );
+    expect(second).toEqual({ status: "fulfilled", value: 9 });
+    expect(counting.spawned).toBe(2);
+  });
+});
+
+describe("AsyncScheduler worker tasks", () => {
+  it("should require a worker pool", () => {
+    const scheduler = new AsyncScheduler();
+
+    expect(() => scheduler.addWorkerTask({ module: fixture })).toThrow(
+      "workerPool must be provided"
+    );
+  });
+
+  it("should time out CPU-bound tasks by terminating the worker", async () => {
+    const pool = new NodeWorkerPool({ size: 2 });
+    const scheduler = new AsyncScheduler({
+      concurrency: 2,
+      timeout: 200,
+      workerPool: pool,
+    });
+    const onTimeout = vi.fn();
+    scheduler.on("timeout", onTimeout);
+
+    const spinning = scheduler.addWorkerTask({
+      module: fixture,
+      export: "spin",
+    });
+    const adding = scheduler.addWorkerTask(
+      { module: fixture, export: "add", args: [20, 22] },
+      { priority: -1 }
+    );
+    const results = await scheduler.start();
+    pool.terminate();
+
+    expect(results.map((result) => result.state)).toEqual([
+      "failed",
+      "succeeded",
+    ]);
+    expect(spinning.error.message).toBe("Timeout");
+    expect(adding.result).toBe(42);
+    expect(onTimeout).toHaveBeenCalledWith(spinning.id, 200);
+  });
+
+  it("should retry worker tasks with the scheduler retry policy", async () => {
+    const pool = new NodeWorkerPool({ size: 1 });
+    const scheduler = new AsyncScheduler({ retry: 2, workerPool: pool });
+    const onRetry = vi.fn();
+    scheduler.on("retry", onRetry);
+
+    const task = scheduler.addWorkerTask({
+      module: fixture,
+      export: "fail",
+      args: ["nope"],
+    });
+    await scheduler.start();
+    pool.terminate();
+
+    expect(task.state).toBe("failed");
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { PriorityQueue } from "../src/PriorityQueue";
+
+interface Item {
+  priority: number;
+  seq: number;
+}
+
+const byPriority = (a: Item, b: Item) =>
+  b.priority - a.priority || a.seq - b.seq;
+
+function drain<T>(queue: PriorityQueue<T>): T[] {
+  const items: T[] = [];
+  while (queue.size > 0) items.push(queue.pop()!);
+  return items;
+}
+
+describe("PriorityQueue", () => {
+  it("should pop items in priority order", () => {
+    const queue = new PriorityQueue<number>((a, b) => a - b);
+    [5, 1, 4, 2, 3, 0].forEach((n) => queue.push(n));
+
+    expect(queue.peek()).toBe(0);
+    expect(drain(queue)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(queue.pop()).toBeUndefined();
+  });
+
+  it("should keep FIFO order within equal priority", () => {
+    const queue = new PriorityQueue<Item>(byPriority);
+    const items = Array.from({ length: 20 }, (_, seq) => ({
+      priority: seq % 2,
+      seq,
+    }));
+    items.forEach((item) => queue.push(item));
+
+    expect(drain(queue).map((item) => item.seq)).toEqual([
+      ...items.filter((item) => item.priority === 1).map((item) => item.seq),
+      ...items.filter((item) => item.priority === 0).map((item) => item.seq),
+    ]);
+  });
+
+  it("should remove arbitrary items and keep the heap valid", () => {
+    const queue = new PriorityQueue<Item>(byPriority);
+    const items = Array.from({ length: 100 }, (_, seq) => ({
+      priority: (seq * 37) % 11,
+      seq,
+    }));
+    items.forEach((item) => queue.push(item));
+
+    const removed = items.filter((_, i) => i % 3 === 0);
+    removed.forEach((item) => expect(queue.remove(item)).toBe(true));
+
+    expect(queue.remove(removed[0])).toBe(false);
+    expect(queue.has(removed[1])).toBe(false);
+    expect(queue.size).toBe(items.length - removed.length);
+
+    const expected = items
+      .filter((item) => !removed.includes(item))
+      .sort(byPriority);
+    expect(queue.toArray()).toEqual(expected);
+    expect(drain(queue)).toEqual(expected);
+  });
+
+  it("should ignore duplicate pushes", () => {
+    const queue = new PriorityQueue<Item>(byPriority);
+    const item = { priority: 1, seq: 0 };
+
+    queue.push(item);
+    queue.push(item);
+
+    expect(queue.size).toBe(1);
+  });
+});
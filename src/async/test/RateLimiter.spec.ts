@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TokenBucket } from "../src/RateLimiter";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst up to its capacity", () => {
+    const bucket = new TokenBucket({ limit: 2, interval: 1000, burst: 3 });
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it("should refill tokens at limit / interval", () => {
+    const bucket = new TokenBucket({ limit: 2, interval: 1000 });
+    bucket.tryTake();
+    bucket.tryTake();
+
+    expect(bucket.waitTime()).toBe(500);
+
+    vi.advanceTimersByTime(499);
+    expect(bucket.tryTake()).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(bucket.tryTake()).toBe(true);
+  });
+
+  it("should not accumulate more than its capacity", () => {
+    const bucket = new TokenBucket({ limit: 1, interval: 100 });
+
+    vi.advanceTimersByTime(10_000);
+
+    expect(bucket.available).toBe(1);
+  });
+
+  it("should reject non-positive limits", () => {
+    expect(() => new TokenBucket({ limit: 0, interval: 1000 })).toThrow();
+  });
+});
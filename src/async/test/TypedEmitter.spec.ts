@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import { TypedEmitter } from "../src/TypedEmitter";
+
+type Events = {
+  data: [value: number];
+  done: [];
+};
+
+// 接口不声明索引签名，事件名与参数都受检查
+interface DeclaredEvents {
+  data: [value: number];
+}
+
+describe("TypedEmitter", () => {
+  it("should only accept declared event names and payloads", () => {
+    const emitter = new TypedEmitter<DeclaredEvents>();
+    const listener = vi.fn();
+
+    // @ts-expect-error 未声明的事件
+    emitter.on("dta", listener);
+    // @ts-expect-error 参数类型不符
+    emitter.emit("data", "1");
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(emitter.listenerCount("data")).toBe(0);
+  });
+
+  it("should unsubscribe with off or the returned function", () => {
+    const emitter = new TypedEmitter<Events>();
+    const a = vi.fn();
+    const b = vi.fn();
+
+    emitter.on("data", a);
+    const unsubscribe = emitter.on("data", b);
+    emitter.emit("data", 1);
+
+    emitter.off("data", a);
+    unsubscribe();
+    emitter.emit("data", 2);
+
+    expect(a).toHaveBeenCalledTimes(1);
+    expect(b).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount("data")).toBe(0);
+  });
+
+  it("should call once listeners a single time and allow removing them with off", () => {
+    const emitter = new TypedEmitter<Events>();
+    const once = vi.fn();
+    const removed = vi.fn();
+
+    emitter.once("data", once);
+    emitter.once("data", removed);
+    emitter.off("data", removed);
+    emitter.emit("data", 1);
+    emitter.emit("data", 2);
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(once).toHaveBeenCalledWith(1);
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it("should stream events through an async iterator", async () => {
+    const emitter = new TypedEmitter<Events>();
+    const received: unknown[] = [];
+
+    const consumer = (async () => {
+      for await (const event of emitter.events({ types: ["data"] })) {
+        received.push(event.args[0]);
+        if (received.length === 3) break;
+      }
+    })();
+
+    emitter.emit("data", 1);
+    emitter.emit("done");
+    emitter.emit("data", 2);
+    await Promise.resolve();
+    emitter.emit("data", 3);
+    await consumer;
+
+    expect(received).toEqual([1, 2, 3]);
+    emitter.emit("data", 4);
+    expect(received).toHaveLength(3);
+  });
+
+  it("should end the event stream when the signal aborts", async () => {
+    const emitter = new TypedEmitter<Events>();
+    const controller = new AbortController();
+    const stream = emitter.events({ signal: controller.signal });
+
+    const next = stream.next();
+    controller.abort();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    await expect(stream.next()).resolves.toMatchObject({ done: true });
+  });
+});
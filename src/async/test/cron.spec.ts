@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { nextCronDate, parseCron } from "../src/cron";
+
+// 使用本地时间构造日期，与 nextCronDate 的时区一致
+const at = (y: number, m: number, d: number, h = 0, min = 0) =>
+  new Date(y, m - 1, d, h, min);
+
+describe("cron", () => {
+  it("should parse lists, ranges and steps", () => {
+    const schedule = parseCron("*/15 9-17 1,15 * 1-5");
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should treat 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("should reject invalid expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow("Invalid cron expression");
+    expect(() => parseCron("60 * * * *")).toThrow("Invalid cron field");
+    expect(() => parseCron("*/0 * * * *")).toThrow("Invalid cron field");
+  });
+
+  it("should find the next matching minute", () => {
+    expect(nextCronDate("*/15 * * * *", at(2024, 1, 1, 10, 7))).toEqual(
+      at(2024, 1, 1, 10, 15)
+    );
+    expect(nextCronDate("0 9 * * *", at(2024, 1, 1, 9, 0))).toEqual(
+      at(2024, 1, 2, 9, 0)
+    );
+    expect(nextCronDate("30 8 1 * *", at(2024, 1, 31, 12))).toEqual(
+      at(2024, 2, 1, 8, 30)
+    );
+  });
+
+  it("should match either day of month or day of week when both are set", () => {
+    // 2024-01-01 是周一
+    expect(nextCronDate("0 0 15 * 5", at(2024, 1, 1))).toEqual(at(2024, 1, 5));
+  });
+
+  it("should match both day fields when one is a stepped wildcard", () => {
+    const schedule = parseCron("0 0 */2 * 1");
+    expect(schedule.anyDayOfMonth).toBe(true);
+    expect(schedule.anyDayOfWeek).toBe(false);
+
+    // 单数日中的周一：1 月 8 日是双数日，下一次为 1 月 15 日
+    expect(nextCronDate(schedule, at(2024, 1, 1))).toEqual(at(2024, 1, 15));
+    // 1 日中的周日、二、四、六：2 月 1 日是周四
+    expect(nextCronDate("0 0 1 * */2", at(2024, 1, 1))).toEqual(at(2024, 2, 1));
+  });
+
+  it("should throw for expressions that never match", () => {
+    expect(() => nextCronDate("0 0 31 2 *", at(2024, 1, 1))).toThrow(
+      "never matches"
+    );
+  });
+});
@@ -0,0 +1,20 @@
+// worker 测试用的模块
+
+export function add(a, b) {
+  return a + b;
+}
+
+export default function square(n) {
+  return n * n;
+}
+
+export async function fail(message) {
+  throw new TypeError(message);
+}
+
+// 同步死循环，只有终止 worker 才能停止
+export function spin() {
+  for (;;) {
+    // busy loop
+  }
+}
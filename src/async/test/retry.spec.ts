@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { computeRetryDelay, resolveRetryPolicy } from "../src/retry";
+
+describe("retry policy", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should treat a number as the retry count", () => {
+    const policy = resolveRetryPolicy(3);
+
+    expect(policy.retries).toBe(3);
+    expect(policy.backoff).toBe("fixed");
+    expect(policy.delay).toBe(0);
+  });
+
+  it("should override the base policy field by field", () => {
+    const base = resolveRetryPolicy({ retries: 2, delay: 100 });
+
+    expect(resolveRetryPolicy(0, base)).toMatchObject({
+      retries: 0,
+      delay: 100,
+    });
+    expect(
+      resolveRetryPolicy({ backoff: "linear", delay: undefined }, base)
+    ).toMatchObject({ retries: 2, delay: 100, backoff: "linear" });
+  });
+
+  it("should compute fixed, linear and exponential delays", () => {
+    const fixed = resolveRetryPolicy({ delay: 100 });
+    const linear = resolveRetryPolicy({ delay: 100, backoff: "linear" });
+    const exponential = resolveRetryPolicy({
+      delay: 100,
+      backoff: "exponential",
+    });
+
+    expect([1, 2, 3].map((n) => computeRetryDelay(fixed, n))).toEqual([
+      100, 100, 100,
+    ]);
+    expect([1, 2, 3].map((n) => computeRetryDelay(linear, n))).toEqual([
+      100, 200, 300,
+    ]);
+    expect([1, 2, 3].map((n) => computeRetryDelay(exponential, n))).toEqual([
+      100, 200, 400,
+    ]);
+  });
+
+  it("should cap delays at maxDelay", () => {
+    const policy = resolveRetryPolicy({
+      delay: 100,
+      backoff: "exponential",
+      factor: 3,
+      maxDelay: 500,
+    });
+
+    expect(computeRetryDelay(policy, 2)).toBe(300);
+    expect(computeRetryDelay(policy, 5)).toBe(500);
+  });
+
+  it("should apply jitter within the configured ratio", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(
+      computeRetryDelay(resolveRetryPolicy({ delay: 1000, jitter: true }), 1)
+    ).toBe(500);
+    expect(
+      computeRetryDelay(resolveRetryPolicy({ delay: 1000, jitter: 0.2 }), 1)
+    ).toBe(900);
+  });
+});
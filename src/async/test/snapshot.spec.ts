@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSnapshotStorage } from "../src/snapshot/FileSnapshotStorage";
+import { LocalStorageSnapshotStorage } from "../src/snapshot/LocalStorageSnapshotStorage";
+import { MemorySnapshotStorage } from "../src/snapshot/MemorySnapshotStorage";
+import type { SchedulerSnapshot } from "../src/snapshot/type";
+
+const snapshot: SchedulerSnapshot = {
+  version: 1,
+  savedAt: 0,
+  tasks: [
+    {
+      id: "a",
+      name: "email",
+      payload: { to: "a@example.com" },
+      priority: 1,
+      attempt: 2,
+      queue: "default",
+      dependsOn: [],
+    },
+  ],
+};
+
+// 用 Map 模拟 Storage 接口
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+describe("MemorySnapshotStorage", () => {
+  it("should save a copy of the snapshot", async () => {
+    const storage = new MemorySnapshotStorage();
+    expect(await storage.load()).toBeNull();
+
+    const copy = structuredClone(snapshot);
+    await storage.save(copy);
+    copy.tasks = [];
+    expect(await storage.load()).toEqual(snapshot);
+
+    await storage.clear();
+    expect(await storage.load()).toBeNull();
+  });
+});
+
+describe("FileSnapshotStorage", () => {
+  it("should write the snapshot as JSON and clear it", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "scheduler-"));
+    try {
+      const path = join(dir, "queue.json");
+      const storage = new FileSnapshotStorage(path);
+      expect(await storage.load()).toBeNull();
+
+      await storage.save(snapshot);
+      expect(JSON.parse(await readFile(path, "utf8"))).toEqual(snapshot);
+      expect(await storage.load()).toEqual(snapshot);
+
+      await storage.clear();
+      expect(await storage.load()).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("LocalStorageSnapshotStorage", () => {
+  it("should store the snapshot under the given key", async () => {
+    const backend = createStorage();
+    const storage = new LocalStorageSnapshotStorage("jobs", backend);
+
+    await storage.save(snapshot);
+    expect(JSON.parse(backend.getItem("jobs")!)).toEqual(snapshot);
+    expect(await storage.load()).toEqual(snapshot);
+
+    await storage.clear();
+    expect(backend.length).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { Readable } from "node:stream";
+import { describe, it, expect, vi } from "vitest";
+import { toAsyncIterator, toReadableStream } from "../src/stream";
+
+async function collect<T>(iterator: AsyncIterator<T>): Promise<T[]> {
+  const items: T[] = [];
+  for (
+    let next = await iterator.next();
+    !next.done;
+    next = await iterator.next()
+  ) {
+    items.push(next.value);
+  }
+  return items;
+}
+
+describe("stream helpers", () => {
+  it("should iterate arrays, async iterables, Readable and ReadableStream", async () => {
+    async function* generate() {
+      yield 1;
+      yield 2;
+    }
+
+    expect(await collect(toAsyncIterator([1, 2]))).toEqual([1, 2]);
+    expect(await collect(toAsyncIterator(generate()))).toEqual([1, 2]);
+    expect(await collect(toAsyncIterator(Readable.from([1, 2])))).toEqual([
+      1, 2,
+    ]);
+
+    const stream = new ReadableStream<number>({
+      start(controller) {
+        controller.enqueue(1);
+        controller.enqueue(2);
+        controller.close();
+      },
+    });
+    expect(await collect(toAsyncIterator(stream))).toEqual([1, 2]);
+  });
+
+  it("should cancel a ReadableStream source on return()", async () => {
+    const cancel = vi.fn();
+    const stream = new ReadableStream<number>({
+      pull(controller) {
+        controller.enqueue(1);
+      },
+      cancel,
+    });
+    // 绕过原生异步迭代，覆盖基于 getReader 的分支
+    const iterator = toAsyncIterator({
+      getReader: () => stream.getReader(),
+    } as unknown as ReadableStream<number>);
+
+    await iterator.next();
+    await iterator.return!();
+
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("should pull from the iterable only as the stream is read", async () => {
+    let pulled = 0;
+    async function* generate() {
+      while (true) yield ++pulled;
+    }
+
+    const reader = toReadableStream(generate()).getReader();
+    expect((await reader.read()).value).toBe(1);
+    expect((await reader.read()).value).toBe(2);
+    expect(pulled).toBe(2);
+    await reader.cancel();
+  });
+});
@@ -1 +1,20 @@
 export * from "./src/browser/index";
+export * from "./src/common/type";
+export * from "./src/common/errors";
+export * from "./src/common/ChunkSizer";
+export * from "./src/node/BigUploaderNode";
+export * from "./src/node/api/requester";
+export * from "./src/node/type";
+export * from "./src/node/multipart/type";
+export * from "./src/node/multipart/errors";
+export * from "./src/node/multipart/MemoryObjectStore";
+export * from "./src/node/multipart/MultipartService";
+export * from "./src/session/type";
+export * from "./src/session/MemorySessionStore";
+export * from "./src/session/LocalStorageSessionStore";
+export * from "./src/session/IndexedDBSessionStore";
+export * from "./src/session/FileSessionStore";
+export * from "./src/transport/type";
+export * from "./src/transport/DefaultTransport";
+export * from "./src/transport/TusTransport";
+export * from "./src/transport/S3Transport";
@@ -0,0 +1,6 @@
+// 服务端入口：依赖 express，不从 index.ts 导出，避免浏览器端打包时解析
+export * from "./src/node/server/type";
+export * from "./src/node/server/MemoryUploadStorage";
+export * from "./src/node/server/FileUploadStorage";
+export * from "./src/node/server/createUploadRouter";
+export * from "./src/node/server/startServer";
@@ -1,69 +1,579 @@
-import type { UploadedChunks } from "../common/type";
+import {
+  AsyncScheduler,
+  type TaskHandle,
+} from "../../../async/src/AsyncScheduler";
+import { BaseUploader, type BaseUploadTask } from "../common/BaseUploader";
+import { TimeoutError } from "../common/errors";
+import { ChunkSizer } from "../common/ChunkSizer";
+import { insertRange, type ByteRange } from "../common/ranges";
+import { SpeedMeter, toProgress } from "../common/SpeedMeter";
+import type {
+  CancelOptions,
+  PauseOptions,
+  UploadOptions,
+  UploadProgress,
+  UploadResult,
+  UploadSettledResult,
+  UploadStatus,
+  UploadTaskStatus,
+} from "../common/type";
 import { BrowserRequester } from "./api/requester";
-import type { Chunk, InitOptions } from "./type";
-
-export class BigUploader {
-  private _endpoint: string;
-  private _chunkSize: number;
-  private _concurrency: number;
-  private _retry: number;
-  private _timeout: number;
-  private _header: Record<string, string>;
+import { collectFiles, type FileSource } from "./directory";
+import { computeFullHash } from "./hash";
+import type { UploadSession } from "../session/type";
+import type { Chunk, HashMode, InitOptions } from "./type";
+
+// 同时计算 hash 的文件数，避免一次加入大量文件时占满内存
+const HASH_CONCURRENCY = 2;
+
+// 交给调度器的分片槽位，开始执行时才按当时的分片大小切出分片
+type ChunkSlot = {
+  handle: TaskHandle;
+  chunk: Chunk | null; // 排队中为 null
+};
+
+// 单个文件的上传任务
+interface UploadTask extends BaseUploadTask {
+  file: File | Blob;
+  status: UploadStatus;
+  remaining: ByteRange[]; // 尚未切分为分片的区间（按 start 排序）
+  inflight: Map<number, number>; // 上传中的分片 start -> 已发送字节数
+  slots: Set<ChunkSlot>; // 已交给调度器（排队或上传中）的槽位
+  settle: {
+    resolve: () => void;
+    reject: (reason: any) => void;
+  };
+}
 
-  // 文件唯一标识
-  private _fileId: string = "";
+export class BigUploader extends BaseUploader<UploadTask> {
+  private _autoStart: boolean;
 
   // 用户自定义的计算 hash 的函数
   private _computeHash: ((file: File | Blob) => Promise<string>) | null;
+  private _hashMode: HashMode;
+  private _hashSliceSize: number;
+
+  // 所有上传任务（fileId -> 任务）
+  private _tasks: Map<string, UploadTask> = new Map();
 
-  // 网络请求实例
-  private requester = new BrowserRequester();
+  private _hashScheduler = new AsyncScheduler({
+    concurrency: HASH_CONCURRENCY,
+    autoStart: true,
+    retain: false,
+  });
+  private _meter = new SpeedMeter(); // 所有文件的总速度
 
   constructor({
     endpoint,
     chunkSize = 5 * 1024 * 1024,
+    adaptiveChunkSize = false,
     concurrency = 3,
     retry = 3,
     timeout = 30000,
     header = {},
-    autoStart = false,
+    autoStart = true,
     computeHash = null,
+    hashMode = "sample",
+    hashSliceSize = 4 * 1024 * 1024,
+    sessionStore = null,
+    sessionTTL = 7 * 24 * 60 * 60 * 1000,
     metadata = {},
+    checksum = "SHA-256",
+    requester = new BrowserRequester(),
+    protocol = "default",
   }: InitOptions) {
-    if (!endpoint) throw new Error("endpoint must be provided");
-
-    this._endpoint = endpoint;
-    this._chunkSize = chunkSize;
-    this._concurrency = concurrency;
-    this._retry = retry;
-    this._timeout = timeout;
-    this._header = header;
+    super({
+      endpoint,
+      chunkSize,
+      concurrency,
+      retry,
+      timeout,
+      header,
+      metadata,
+      checksum,
+      requester,
+      protocol,
+      sessionStore,
+      sessionTTL,
+    });
+    if (adaptiveChunkSize && this._transport.fixedChunkSize) {
+      throw new Error(`adaptiveChunkSize is not supported by ${protocol}`);
+    }
+    this._sizer = adaptiveChunkSize
+      ? new ChunkSizer(
+          chunkSize,
+          adaptiveChunkSize === true ? {} : adaptiveChunkSize
+        )
+      : null;
+    this._autoStart = autoStart;
     this._computeHash = computeHash;
+    this._hashMode = hashMode;
+    this._hashSliceSize = hashSliceSize;
+  }
+
+  /**
+   * 上传文件，所有分片上传并合并完成后返回服务端的合并结果
+   *
+   * fileId 在计算完文件 hash 后通过 start / pending 事件通知，可用于 pause / resume / cancel；
+   * 多个文件同时上传时共享 concurrency 个分片并发，priority 高的文件的分片先上传
+   */
+  public upload(
+    file: File | Blob,
+    metadata: Record<string, any> = {},
+    options?: UploadOptions
+  ): Promise<UploadResult> {
+    return this._upload(file, metadata, options, null);
+  }
+
+  /**
+   * 为页面刷新前未完成的会话重新选择文件并继续上传
+   *
+   * 文件内容必须与会话一致（fileId 相同），沿用会话的 metadata 与已上传的分片
+   */
+  public async resumeSession(
+    fileId: string,
+    file: File | Blob,
+    options?: UploadOptions
+  ): Promise<UploadResult> {
+    const session = await this._loadSession(fileId);
+    if (!session) {
+      throw new Error(`Upload session "${fileId}" not found or expired`);
+    }
+    if (session.size !== file.size) {
+      throw new Error(`File does not match upload session "${fileId}"`);
+    }
+    return this._upload(file, session.metadata, options, fileId);
+  }
+
+  private async _upload(
+    file: File | Blob,
+    metadata: Record<string, any>,
+    options: UploadOptions | undefined,
+    sessionId: string | null
+  ): Promise<UploadResult> {
+    // 计算文件唯一 Hash 值，用于断点续传
+    const { fileId, sha256 } = await this._hashScheduler.addTask(() =>
+      this._computeFileId(file)
+    ).promise;
+
+    if (sessionId != null && fileId !== sessionId) {
+      throw new Error(`File does not match upload session "${sessionId}"`);
+    }
+
+    const existing = this._tasks.get(fileId);
+    if (existing && !isFinished(existing.status)) {
+      throw new Error(`File "${fileId}" is already being uploaded`);
+    }
+
+    const session = await this._loadSession(fileId);
+    const task: UploadTask = {
+      fileId,
+      file,
+      size: file.size,
+      metadata: { ...this._metadata, ...metadata },
+      status: "pending",
+      priority: options?.priority ?? 0,
+      remaining: [],
+      parts: new Map(),
+      uploadedBytes: 0,
+      inflight: new Map(),
+      slots: new Set(),
+      meter: new SpeedMeter(),
+      digests: new Map(),
+      uploadId: session?.uploadId,
+      createdAt: session?.createdAt ?? Date.now(),
+      sha256,
+      settle: { resolve: () => {}, reject: () => {} },
+    };
+    this._tasks.set(fileId, task);
+    const done = this._transfer(task);
+
+    const status = await this._getUploadedChunks(task); // 获取已上传的分片
+
+    const instant =
+      task.status !== "canceled" ? this._instantResult(task, status) : null;
+    if (instant) {
+      task.status = "completed";
+      this._emit("progress", fileId, this._progress(task));
+      this._emit("totalProgress", this.getTotalProgress());
+      this._finish(task, instant);
+      return instant;
+    }
+
+    task.remaining = this._restoreParts(task, status, session);
+    if (task.status !== "canceled") this._saveSession(task);
+
+    // 查询期间可能已被取消或恢复
+    if (task.status === "pending") {
+      if (this._autoStart) {
+        this._start(task, "start");
+      } else {
+        this._emit("pending", fileId);
+      }
+    } else if (task.status === "uploading") {
+      this._dispatch(task);
+    }
+
+    await done; // 并发上传
+
+    try {
+      // 通知后端合并，损坏的分片放回等待区间重新上传
+      const result = await this._merge(task, async (ranges) => {
+        for (const range of ranges) insertRange(task.remaining, range);
+        const redone = this._transfer(task);
+        this._dispatch(task);
+        await redone;
+      });
+      task.status = "completed";
+      this._finish(task, result);
+      return result;
+    } catch (err) {
+      if (task.status === "canceled") throw err;
+      task.status = "failed";
+      this._emit("error", fileId, err);
+      throw err;
+    }
+  }
+
+  // 开始一轮分片上传，remaining 中的区间全部上传完成后 resolve
+  private _transfer(task: UploadTask): Promise<void> {
+    const done = new Promise<void>((resolve, reject) => {
+      task.settle = { resolve, reject };
+    });
+    // 在查询已上传分片期间被取消时，不应成为未处理的 rejection
+    done.catch(() => {});
+    return done;
+  }
+
+  /**
+   * 上传多个文件（支持拖入的目录），返回每个文件的结果（包括失败与取消）
+   *
+   * 拖入目录时，文件的相对路径会作为 metadata.relativePath 一并提交
+   */
+  public async uploadFiles(
+    source: FileSource,
+    options?: UploadOptions & { metadata?: Record<string, any> }
+  ): Promise<UploadSettledResult[]> {
+    const files = await collectFiles(source);
+
+    return Promise.all(
+      files.map(({ file, path }) =>
+        this.upload(
+          file,
+          { ...options?.metadata, relativePath: path },
+          options
+        ).then(
+          (result): UploadSettledResult => ({
+            file,
+            status: "completed",
+            result,
+          }),
+          (error): UploadSettledResult => ({
+            file,
+            status:
+              error?.message === "Upload Cancelled" ? "canceled" : "failed",
+            error,
+          })
+        )
+      )
+    );
+  }
+
+  // 暂停上传：不再发起新的分片请求，abort 为 true 时中止上传中的分片
+  public pause(fileId: string, options?: PauseOptions) {
+    const task = this._tasks.get(fileId);
+    if (!task || task.status !== "uploading") return;
+
+    task.status = "paused";
+    // 排队中的槽位从调度器中撤回，上传中的分片只在 abort 时撤回
+    for (const slot of task.slots) {
+      if (slot.handle.state === "running" && !options?.abort) continue;
+      this._detachSlot(task, slot);
+    }
+    this._emit("paused", fileId);
+  }
+
+  // 恢复暂停的上传，或开始 autoStart 为 false 时等待中的上传
+  public resume(fileId: string) {
+    const task = this._tasks.get(fileId);
+    if (!task) return;
+
+    if (task.status === "pending") {
+      this._start(task, "start");
+    } else if (task.status === "paused") {
+      this._start(task, "resumed");
+    }
+  }
+
+  /**
+   * 取消上传：中止上传中的分片，upload() 以 "Upload Cancelled" 错误结束
+   *
+   * discard 为 true 时通知服务端删除已上传的分片
+   */
+  public async cancel(fileId: string, options?: CancelOptions) {
+    const task = this._tasks.get(fileId);
+    if (!task || isFinished(task.status)) return;
+
+    this._abortTask(task, "canceled", new Error("Upload Cancelled"));
+    this._emit("cancel", fileId);
+    this._deleteSession(fileId);
+
+    if (options?.discard) {
+      await this._transport.discard(this._transportFile(task));
+    }
+  }
+
+  public getStatus(fileId: string): UploadTaskStatus | undefined {
+    const task = this._tasks.get(fileId);
+    if (!task) return undefined;
+
+    return {
+      fileId,
+      status: task.status,
+      progress: this._progress(task),
+      uploadedChunks: task.parts.size,
+      totalChunks:
+        task.parts.size +
+        task.inflight.size +
+        this._countChunks(task.remaining),
+    };
+  }
+
+  public listTasks(): UploadTaskStatus[] {
+    return [...this._tasks.keys()].map((fileId) => this.getStatus(fileId)!);
+  }
+
+  // 所有未取消任务的总进度
+  public getTotalProgress(): UploadProgress {
+    let loaded = 0;
+    let total = 0;
+    for (const task of this._tasks.values()) {
+      if (task.status === "canceled") continue;
+      loaded += this._loaded(task);
+      total += task.size;
+    }
+    const uploading = [...this._tasks.values()].some(
+      (task) => task.status === "uploading"
+    );
+    return toProgress(loaded, total, uploading ? this._meter.speed : 0);
+  }
+
+  // 从任务表中移除已结束的任务
+  public clearFinished() {
+    for (const [fileId, task] of this._tasks) {
+      if (isFinished(task.status)) this._tasks.delete(fileId);
+    }
+  }
+
+  private _start(task: UploadTask, event: "start" | "resumed") {
+    task.status = "uploading";
+    task.meter.reset();
+    this._emit(event, task.fileId);
+    this._dispatch(task);
+  }
+
+  // 为等待上传的区间分配槽位，所有分片都上传完成后结束任务
+  private _dispatch(task: UploadTask) {
+    if (task.status !== "uploading") return;
+
+    // 每个文件最多占用 concurrency 个槽位（按顺序上传的协议只占 1 个），排队中的槽位不超过剩余分片数
+    const limit = this._transport.sequential ? 1 : this._concurrency;
+    let queued = 0;
+    for (const slot of task.slots) if (!slot.chunk) queued++;
+    const chunks = this._countChunks(task.remaining);
+    while (task.slots.size < limit && queued < chunks) {
+      this._runSlot(task);
+      queued++;
+    }
+    if (task.slots.size === 0) task.settle.resolve();
+  }
+
+  private async _runSlot(task: UploadTask) {
+    const slot = { chunk: null } as ChunkSlot;
+    slot.handle = this._scheduler.addTask(
+      async (signal) => {
+        slot.chunk = this._nextChunk(task);
+        if (slot.chunk) await this._uploadChunk(task, slot.chunk, signal);
+      },
+      { priority: task.priority }
+    );
+    task.slots.add(slot);
+
+    try {
+      await slot.handle.promise;
+      if (!task.slots.delete(slot)) return; // 已被暂停或取消撤回
+      const { chunk } = slot;
+      if (chunk) {
+        const length = chunk.end - chunk.start;
+        task.inflight.delete(chunk.start);
+        task.parts.set(chunk.start, chunk.end);
+        task.uploadedBytes += length;
+        this._emit("chunkUploaded", task.fileId, chunk.start, length);
+        this._saveSession(task);
+      }
+    } catch (err) {
+      if (!task.slots.delete(slot)) return;
+      const { chunk } = slot;
+      if (chunk) task.inflight.delete(chunk.start);
+      if (task.status === "paused") {
+        // 暂停期间失败的分片放回等待区间，恢复后重新上传
+        if (chunk) insertRange(task.remaining, chunk);
+      } else if (task.status === "uploading") {
+        this._abortTask(task, "failed", err);
+        this._emit("error", task.fileId, err);
+        return;
+      }
+    }
+    this._dispatch(task);
   }
 
-  public async upload(file: File | Blob, metadata: Record<string, any>) {
-    const fileId = await this._computeFileId(file); // 计算文件唯一 Hash 值，用于断点续传
-    this._fileId = fileId;
+  // 从第一个等待上传的区间头部，按当前分片大小切出下一个分片
+  private _nextChunk(task: UploadTask): Chunk | null {
+    const range = task.remaining[0];
+    if (!range) return null;
+
+    const start = range.start;
+    const end = Math.min(start + this._currentChunkSize(), range.end);
+    if (end === range.end) {
+      task.remaining.shift();
+    } else {
+      range.start = end;
+    }
+    task.inflight.set(start, 0);
+    return { start, end, blob: task.file.slice(start, end) };
+  }
 
-    const chunks = this._createChunks(file); // 文件分片
-    const uploadedChunks = await this._getUploadedChunks(fileId); // 获取已上传的分片索引
+  private _currentChunkSize(): number {
+    return this._sizer?.size ?? this._chunkSize;
+  }
 
-    const pendingChunks = chunks.filter(
-      (chunk) => !uploadedChunks.has(chunk.index)
+  // 按当前分片大小估算区间还需要的分片数
+  private _countChunks(ranges: ByteRange[]): number {
+    const size = this._currentChunkSize();
+    return ranges.reduce(
+      (count, { start, end }) => count + Math.ceil((end - start) / size),
+      0
+    );
+  }
+
+  // 撤回已交给调度器的槽位：排队中的直接移除，上传中的中止请求并把分片放回等待区间
+  private _detachSlot(task: UploadTask, slot: ChunkSlot) {
+    if (!task.slots.delete(slot)) return;
+    this._scheduler.cancelTask(slot.handle.id);
+    if (slot.chunk) {
+      task.inflight.delete(slot.chunk.start);
+      insertRange(task.remaining, slot.chunk);
+    }
+  }
+
+  // 以失败或取消结束任务，撤回所有分片
+  private _abortTask(
+    task: UploadTask,
+    status: "failed" | "canceled",
+    reason: any
+  ) {
+    task.status = status;
+    for (const slot of [...task.slots]) {
+      this._detachSlot(task, slot);
+    }
+    task.remaining = [];
+    task.settle.reject(reason);
+  }
+
+  private async _uploadChunk(
+    task: UploadTask,
+    chunk: Chunk,
+    signal: AbortSignal
+  ) {
+    await this._withRetry(
+      task,
+      chunk.start,
+      signal,
+      async () => {
+        // 超时后分片可能被缩小，每次重试按当前区间发送
+        const size = chunk.end - chunk.start;
+        const digest = this._checksum
+          ? await this._chunkDigest(task, chunk.start, chunk.end)
+          : undefined;
+        const startedAt = Date.now();
+
+        try {
+          await this._sendChunk(
+            task,
+            { offset: chunk.start, length: size, data: chunk.blob, digest },
+            signal,
+            (loaded) =>
+              this._onChunkProgress(task, chunk, Math.min(loaded, size))
+          );
+        } catch (error) {
+          this._onChunkProgress(task, chunk, 0);
+          throw error;
+        }
+        this._sizer?.record(size, Date.now() - startedAt);
+        this._onChunkProgress(task, chunk, size);
+      },
+      (error) => {
+        if (error instanceof TimeoutError && this._sizer) {
+          this._shrinkChunk(task, chunk);
+        }
+      }
     );
+  }
 
-    await this._uploadChunksConcurrently(pendingChunks); // 并发上传
+  // 自适应分片超时：缩小后续分片，当前分片超出新大小的部分放回等待区间
+  private _shrinkChunk(task: UploadTask, chunk: Chunk) {
+    this._sizer!.shrink();
+    const end = chunk.start + this._sizer!.size;
+    if (end >= chunk.end) return;
 
-    await this._mergeChunks(fileId, chunks.length, metadata); // 通知后端合并
+    insertRange(task.remaining, { start: end, end: chunk.end });
+    chunk.end = end;
+    chunk.blob = task.file.slice(chunk.start, end);
   }
 
-  // 文件唯一标识
+  // 更新分片已发送的字节数，并通知分片、文件与总体进度
+  private _onChunkProgress(task: UploadTask, chunk: Chunk, loaded: number) {
+    if (!task.inflight.has(chunk.start)) return; // 分片已被撤回
+    const previous = task.inflight.get(chunk.start)!;
+    task.inflight.set(chunk.start, loaded);
+    if (loaded > previous) {
+      task.meter.record(loaded - previous);
+      this._meter.record(loaded - previous);
+    }
+
+    const size = chunk.end - chunk.start;
+    this._emit("chunkProgress", task.fileId, chunk.start, loaded, size);
+    this._emit("progress", task.fileId, this._progress(task));
+    this._emit("totalProgress", this.getTotalProgress());
+  }
+
+  private _loaded(task: UploadTask): number {
+    let loaded = task.uploadedBytes;
+    task.inflight.forEach((bytes) => (loaded += bytes));
+    return loaded;
+  }
+
+  protected _progress(task: UploadTask): UploadProgress {
+    const speed = task.status === "uploading" ? task.meter.speed : 0;
+    return toProgress(this._loaded(task), task.size, speed);
+  }
+
+  // 文件唯一标识；全量模式下同时得到文件内容的 sha256，用于秒传
   private async _computeFileId(
     file: File | Blob,
     algorithm: AlgorithmIdentifier = "SHA-256"
-  ): Promise<string> {
+  ): Promise<{ fileId: string; sha256?: string }> {
     if (this._computeHash) {
-      return await this._computeHash(file);
+      return { fileId: await this._computeHash(file) };
+    }
+
+    // 全量模式：内容不同的文件不会得到相同的 fileId
+    if (this._hashMode === "full") {
+      const hash = await computeFullHash(file, {
+        sliceSize: this._hashSliceSize,
+        onProgress: (progress) => this._emit("hashProgress", file, progress),
+      });
+      return { fileId: `${hash}_${file.size}`, sha256: hash };
     }
 
     const chunkSize = 2 * 1024 * 1024; // 采样 2MB
@@ -91,7 +601,7 @@ export class BigUploader {
       .map((b) => b.toString(16).padStart(2, "0"))
       .join("");
 
-    return `${hashHex}_${fileSize}`;
+    return { fileId: `${hashHex}_${fileSize}` };
   }
 
   // 多 Buffer 合并
@@ -106,113 +616,21 @@ export class BigUploader {
     return tmp.buffer;
   }
 
-  // 文件分片
-  private _createChunks(file: File | Blob): Chunk[] {
-    const chunks: Chunk[] = [];
-    let start = 0;
-    let index = 0;
-
-    while (start < file.size) {
-      const end = Math.min(start + this._chunkSize, file.size);
-      chunks.push({
-        index,
-        start,
-        end,
-        blob: file.slice(start, end),
-      });
-      start = end;
-      index++;
-    }
-
-    return chunks;
-  }
-
-  private async _getUploadedChunks(fileId: string): Promise<Set<number>> {
-    const url = `${this._endpoint}/status?fileId=${encodeURIComponent(fileId)}`;
-
-    for (let attempt = 0; attempt < this._retry; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), this._timeout);
-
-        const res = await this.requester.get<UploadedChunks>(
-          url,
-          controller.signal
-        );
-
-        clearTimeout(timeout);
-
-        if (!Array.isArray(res.uploaded)) {
-          throw new Error("Incorrect response format");
-        }
-
-        return new Set(res.uploaded);
-      } catch (err) {
-        console.warn(`[getUploadedChunks] attempt ${attempt + 1} failed:`, err);
-
-        if (attempt === this._retry - 1) {
-          return new Set(); // 放弃断点续传，重新上传
-        }
-      }
-    }
-
-    return new Set();
+  protected _readRange(
+    task: UploadTask,
+    start: number,
+    end: number
+  ): Promise<ArrayBuffer> {
+    return task.file.slice(start, end).arrayBuffer();
   }
 
-  private async _uploadChunksConcurrently(chunks: Chunk[]): Promise<void> {
-    const url = `${this._endpoint}/upload`;
-    const total = chunks.length;
-    let completed = 0;
-    let failed = false;
-
-    const uploadChunk = async (chunk: Chunk) => {
-      for (let attempt = 0; attempt < this._retry; attempt++) {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), this._timeout);
-
-        try {
-          await this.requester.uploadChunk(
-            `${url}?fileId=${this._fileId}&index=${chunk.index}`,
-            chunk.blob,
-            this._header,
-            controller.signal
-          );
-
-          completed++;
-          return;
-        } catch (error) {
-          if (attempt + 1 === this._retry) {
-            failed = true;
-            throw new Error(
-              `Chunk ${chunk.index} failed after ${attempt} attempts.`
-            );
-          }
-        } finally {
-          clearTimeout(timeout);
-        }
-      }
-    };
-
-    const pool: Promise<void>[] = [];
-    let idx = 0;
-
-    const runNext = async () => {
-      if (failed || idx > this._concurrency) return;
-      const task = uploadChunk(chunks[idx++]).then(runNext);
-      pool.push(task);
-    };
-
-    const size = Math.min(this._concurrency, total);
-    for (let i = 0; i < size; i++) runNext();
-    await Promise.all(pool);
+  protected _sessionFields({ file }: UploadTask): Partial<UploadSession> {
+    return file instanceof File
+      ? { fileName: file.name, lastModified: file.lastModified }
+      : {};
   }
+}
 
-  private async _mergeChunks(
-    fileId: string,
-    chunkLength: number,
-    metadata: Record<string, any>
-  ) {
-    const url = `${this._endpoint}/merge`;
-    return this.requester.post(url, { fileId, chunkLength, metadata });
-  }
+function isFinished(status: UploadStatus): boolean {
+  return status === "completed" || status === "failed" || status === "canceled";
 }
@@ -1,9 +1,18 @@
-import type { Requester } from "../../common/type";
+import {
+  checkResponse,
+  parseResponse,
+  toRequestError,
+} from "../../common/errors";
+import type {
+  RawRequestOptions,
+  RawResponse,
+  Requester,
+} from "../../common/type";
 
+// 基于 fetch 的 Requester，无法获得上传进度，分片进度只在完成时更新
 export class BrowserRequester implements Requester {
   async get<T = any>(url: string, signal?: AbortSignal): Promise<T> {
-    const res = await fetch(url, { signal });
-    return res.json();
+    return this._request<T>(url, { signal });
   }
   async post<T = any>(
     url: string,
@@ -11,7 +20,7 @@ export class BrowserRequester implements Requester {
     headers?: Record<string, string>,
     signal?: AbortSignal
   ): Promise<T> {
-    const res = await fetch(url, {
+    return this._request<T>(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -20,8 +29,6 @@ export class BrowserRequester implements Requester {
       body: JSON.stringify(data),
       signal,
     });
-
-    return res.json();
   }
   async uploadChunk<T = any>(
     url: string,
@@ -29,13 +36,38 @@ export class BrowserRequester implements Requester {
     headers?: Record<string, string>,
     signal?: AbortSignal
   ): Promise<T> {
-    const res = await fetch(url, {
+    return this._request<T>(url, {
       method: "POST",
       headers,
       signal,
       body: chunk,
     });
+  }
+
+  async request(
+    method: string,
+    url: string,
+    { headers, body, signal }: RawRequestOptions = {}
+  ): Promise<RawResponse> {
+    try {
+      const res = await fetch(url, { method, headers, body, signal });
+      // 跨域时服务端需要通过 Access-Control-Expose-Headers 暴露响应头
+      return checkResponse(url, {
+        status: res.status,
+        headers: Object.fromEntries(res.headers),
+        body: await res.text(),
+      });
+    } catch (error) {
+      throw toRequestError(url, error, signal);
+    }
+  }
 
-    return res.json();
+  private async _request<T>(url: string, init: RequestInit): Promise<T> {
+    try {
+      const res = await fetch(url, init);
+      return parseResponse<T>(url, res.status, await res.text());
+    } catch (error) {
+      throw toRequestError(url, error, init.signal ?? undefined);
+    }
   }
 }
@@ -0,0 +1,132 @@
+import {
+  RequestError,
+  checkResponse,
+  parseResponse,
+  toRequestError,
+} from "../../common/errors";
+import type {
+  RawRequestOptions,
+  RawResponse,
+  Requester,
+} from "../../common/type";
+
+/**
+ * 基于 XMLHttpRequest 的 Requester，可以上报分片已发送的字节数
+ */
+export class XhrRequester implements Requester {
+  async get<T = any>(url: string, signal?: AbortSignal): Promise<T> {
+    return this._send<T>("GET", url, null, {}, signal);
+  }
+  async post<T = any>(
+    url: string,
+    data: any,
+    headers?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this._send<T>(
+      "POST",
+      url,
+      JSON.stringify(data),
+      { "Content-Type": "application/json", ...headers },
+      signal
+    );
+  }
+  async uploadChunk<T = any>(
+    url: string,
+    chunk: Blob,
+    headers?: Record<string, string>,
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<T> {
+    return this._send<T>("POST", url, chunk, headers, signal, onProgress);
+  }
+  async request(
+    method: string,
+    url: string,
+    { headers, body, signal, onProgress }: RawRequestOptions = {}
+  ): Promise<RawResponse> {
+    const response = await this._open(
+      method,
+      url,
+      body ?? null,
+      headers,
+      signal,
+      onProgress
+    );
+    return checkResponse(url, response);
+  }
+
+  private _send<T>(
+    method: string,
+    url: string,
+    body: XMLHttpRequestBodyInit | null,
+    headers: Record<string, string> = {},
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<T> {
+    return this._open(method, url, body, headers, signal, onProgress).then(
+      ({ status, body: text }) => parseResponse<T>(url, status, text)
+    );
+  }
+
+  private _open(
+    method: string,
+    url: string,
+    body: XMLHttpRequestBodyInit | null,
+    headers: Record<string, string> = {},
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<RawResponse> {
+    return new Promise<RawResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(toRequestError(url, signal.reason, signal));
+      }
+
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      const finish = () => signal?.removeEventListener("abort", onAbort);
+      signal?.addEventListener("abort", onAbort);
+
+      xhr.open(method, url);
+      for (const [name, value] of Object.entries(headers)) {
+        xhr.setRequestHeader(name, value);
+      }
+      if (onProgress) {
+        xhr.upload.onprogress = (event) =>
+          onProgress(event.loaded, event.total);
+      }
+
+      xhr.onload = () => {
+        finish();
+        resolve({
+          status: xhr.status,
+          headers: parseHeaders(xhr.getAllResponseHeaders()),
+          body: xhr.responseText,
+        });
+      };
+      xhr.onerror = () => {
+        finish();
+        reject(new RequestError(`Request to ${url} failed`, url));
+      };
+      xhr.onabort = () => {
+        finish();
+        reject(toRequestError(url, signal?.reason, signal));
+      };
+
+      xhr.send(body);
+    });
+  }
+}
+
+// "Name: value\r\n" 格式的响应头，名称转为小写
+function parseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(":");
+    if (index <= 0) continue;
+    headers[line.slice(0, index).trim().toLowerCase()] = line
+      .slice(index + 1)
+      .trim();
+  }
+  return headers;
+}
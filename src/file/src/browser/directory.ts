@@ -0,0 +1,74 @@
+// 拖拽、<input type="file"> 或手动传入的文件来源
+export type FileSource =
+  | DataTransfer
+  | DataTransferItemList
+  | FileList
+  | Iterable<File>;
+
+export interface SourceFile {
+  file: File;
+  path: string; // 相对路径，拖入目录时包含目录层级
+}
+
+/**
+ * 从文件来源中收集所有文件，拖入的目录会被递归展开
+ */
+export async function collectFiles(source: FileSource): Promise<SourceFile[]> {
+  const items = "dropEffect" in source ? source.items : source;
+
+  if (isItemList(items)) {
+    const entries: FileSystemEntry[] = [];
+    const files: SourceFile[] = [];
+    // 必须在拖拽事件的同步阶段读取全部 entry，之后 DataTransfer 会失效
+    for (const item of Array.from(items)) {
+      if (item.kind !== "file") continue;
+      const entry = item.webkitGetAsEntry?.();
+      if (entry) {
+        entries.push(entry);
+      } else {
+        const file = item.getAsFile();
+        if (file) files.push({ file, path: file.name });
+      }
+    }
+    for (const entry of entries) {
+      files.push(...(await readEntry(entry)));
+    }
+    return files;
+  }
+
+  return Array.from(items as Iterable<File>, (file) => ({
+    file,
+    path: file.webkitRelativePath || file.name,
+  }));
+}
+
+function isItemList(
+  items: DataTransferItemList | FileList | Iterable<File>
+): items is DataTransferItemList {
+  const first = (items as ArrayLike<unknown>)[0];
+  return (
+    typeof first === "object" && first !== null && "webkitGetAsEntry" in first
+  );
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<SourceFile[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path: entry.fullPath.replace(/^\//, "") }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: SourceFile[] = [];
+  // readEntries 每次最多返回一批，需要读到空数组为止
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return files;
+    for (const child of batch) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+}
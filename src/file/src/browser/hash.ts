@@ -0,0 +1,52 @@
+import { hashFile, type HashFileOptions } from "../common/hashFile";
+import type { HashProgress } from "../common/type";
+
+type WorkerMessage =
+  | { type: "progress"; progress: HashProgress }
+  | { type: "done"; hash: string }
+  | { type: "error"; message: string };
+
+/**
+ * 计算整个文件的 SHA-256：支持 Web Worker 时在 worker 中计算，避免阻塞主线程，否则在主线程分段计算
+ */
+export function computeFullHash(
+  file: Blob,
+  options: HashFileOptions = {}
+): Promise<string> {
+  if (typeof Worker === "undefined") return hashFile(file, options);
+
+  const { sliceSize, onProgress, signal } = options;
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./hash.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+      if (data.type === "progress") {
+        onProgress?.(data.progress);
+      } else if (data.type === "done") {
+        finish();
+        resolve(data.hash);
+      } else {
+        finish();
+        reject(new Error(data.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Hash worker error"));
+    };
+    worker.postMessage({ file, sliceSize });
+  });
+}
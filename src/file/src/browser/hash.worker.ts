@@ -0,0 +1,21 @@
+import { hashFile } from "../common/hashFile";
+
+// 全量 hash 的 worker 入口：进度与结果通过 postMessage 发回主线程
+self.onmessage = async (
+  event: MessageEvent<{ file: Blob; sliceSize?: number }>
+) => {
+  const { file, sliceSize } = event.data;
+  try {
+    const hash = await hashFile(file, {
+      sliceSize,
+      onProgress: (progress) =>
+        self.postMessage({ type: "progress", progress }),
+    });
+    self.postMessage({ type: "done", hash });
+  } catch (error: any) {
+    self.postMessage({
+      type: "error",
+      message: error?.message ?? String(error),
+    });
+  }
+};
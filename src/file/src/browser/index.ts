@@ -1,2 +1,6 @@
 export * from "./BigUploaderBrowser";
 export * from "./type";
+export * from "./directory";
+export * from "./hash";
+export * from "./api/requester";
+export * from "./api/xhrRequester";
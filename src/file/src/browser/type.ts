@@ -1,17 +1,33 @@
+import type { AdaptiveChunkOptions } from "../common/ChunkSizer";
+import type { ChecksumAlgorithm, Requester } from "../common/type";
+import type { SessionStore } from "../session/type";
+import type { UploadProtocol } from "../transport/type";
+
+// 文件 ID 的计算方式：sample 只采样头、中、尾各 2MB（快），full 分段计算整个文件（准确）
+export type HashMode = "sample" | "full";
+
 export interface InitOptions {
   endpoint: string;
-  chunkSize?: number;
+  chunkSize?: number; // 自适应分片时为初始分片大小
+  adaptiveChunkSize?: boolean | AdaptiveChunkOptions; // 根据实测吞吐量与 RTT 调整后续分片大小
   concurrency?: number;
   retry?: number;
   timeout?: number;
   header?: Record<string, string>;
   autoStart?: boolean;
-  computeHash?: ((file: File | Blob) => Promise<string>) | null;
+  computeHash?: ((file: File | Blob) => Promise<string>) | null; // 优先于 hashMode
+  hashMode?: HashMode;
+  hashSliceSize?: number; // full 模式下每次读入内存的字节数
   metadata?: Record<string, any>;
+  checksum?: ChecksumAlgorithm | null; // 分片与整体校验的摘要算法，null 表示不校验
+  requester?: Requester; // 自定义网络请求实现（默认基于 fetch）
+  protocol?: UploadProtocol; // 上传协议，默认为内置协议；"tus"、"s3" 需要 requester 实现 request()
+  sessionStore?: SessionStore | null; // 持久化未完成的上传会话，用于页面刷新后恢复
+  sessionTTL?: number; // 会话过期时间（ms），默认 7 天
 }
 
+// 上传中的分片，以 start（即协议中的 offset）标识
 export interface Chunk {
-  index: number;
   start: number;
   end: number;
   blob: Blob;
@@ -0,0 +1,451 @@
+import { AsyncScheduler } from "../../../async/src/AsyncScheduler";
+import {
+  TypedEmitter,
+  type EmittedEvent,
+  type EventStreamOptions,
+  type Listener,
+} from "../../../async/src/TypedEmitter";
+import type { SessionStore, UploadSession } from "../session/type";
+import { createTransport } from "../transport/createTransport";
+import type {
+  TransportChunk,
+  TransportFile,
+  UploadProtocol,
+  UploadTransport,
+} from "../transport/type";
+import type { ChunkSizer } from "./ChunkSizer";
+import { TimeoutError, isRetryableError } from "./errors";
+import { missingRanges, selectParts, type ByteRange } from "./ranges";
+import type { SpeedMeter } from "./SpeedMeter";
+import type {
+  ChecksumAlgorithm,
+  ChunkRange,
+  MergeResponse,
+  Requester,
+  UploadedChunks,
+  UploaderEvents,
+  UploadProgress,
+  UploadResult,
+} from "./type";
+
+type UploaderEventType = keyof UploaderEvents & string;
+
+// 两端共有的上传任务状态
+export interface BaseUploadTask {
+  fileId: string;
+  size: number;
+  metadata: Record<string, any>;
+  priority: number;
+  parts: Map<number, number>; // 已上传的分片 start -> end
+  uploadedBytes: number; // 已上传分片的字节数
+  meter: SpeedMeter;
+  digests: Map<string, string>; // 分片摘要（开启 checksum 时），key 为 "start-end"
+  uploadId?: string; // 服务端上传会话 id
+  createdAt: number; // 会话创建时间（恢复的会话沿用原时间）
+  sha256?: string; // 文件内容的 SHA-256（计算了全量 hash 时），用于秒传与合并校验
+}
+
+// 子类填好默认值后传入的公共配置
+export interface BaseUploaderOptions {
+  endpoint: string;
+  chunkSize: number;
+  concurrency: number;
+  retry: number;
+  timeout: number;
+  header: Record<string, string>;
+  metadata: Record<string, any>;
+  checksum: ChecksumAlgorithm | null;
+  requester: Requester;
+  protocol: UploadProtocol;
+  sessionStore: SessionStore | null;
+  sessionTTL: number;
+}
+
+/**
+ * 浏览器端与 Node.js 端上传器的公共部分：协议、事件、会话、查询与合并
+ *
+ * 子类只负责读取文件（分片数据与摘要）以及分片的调度方式
+ */
+export abstract class BaseUploader<Task extends BaseUploadTask> {
+  protected _endpoint: string;
+  protected _chunkSize: number;
+  protected _concurrency: number;
+  protected _retry: number;
+  protected _timeout: number;
+  protected _metadata: Record<string, any>;
+  protected _checksum: ChecksumAlgorithm | null;
+  protected _sizer: ChunkSizer | null = null; // 自适应分片大小，未开启时为 null
+
+  // 持久化上传会话，页面刷新或进程重启后可以恢复未完成的上传
+  protected _sessionStore: SessionStore | null;
+  private _sessionTTL: number;
+  private _sessionWriting: Promise<void> = Promise.resolve();
+
+  // 上传协议的实现
+  protected _transport: UploadTransport;
+
+  // 所有文件的分片共享同一个调度器，concurrency 是全局的分片并发数
+  protected _scheduler: AsyncScheduler;
+
+  private _emitter = new TypedEmitter<UploaderEvents>();
+
+  constructor({
+    endpoint,
+    chunkSize,
+    concurrency,
+    retry,
+    timeout,
+    header,
+    metadata,
+    checksum,
+    requester,
+    protocol,
+    sessionStore,
+    sessionTTL,
+  }: BaseUploaderOptions) {
+    if (!endpoint) throw new Error("endpoint must be provided");
+
+    this._endpoint = endpoint;
+    this._chunkSize = chunkSize;
+    this._concurrency = concurrency;
+    this._retry = retry;
+    this._timeout = timeout;
+    this._metadata = metadata;
+    this._checksum = checksum;
+    this._sessionStore = sessionStore;
+    this._sessionTTL = sessionTTL;
+    this._transport = createTransport(protocol, {
+      endpoint,
+      requester,
+      header,
+      checksum,
+      chunkSize,
+    });
+    this._scheduler = new AsyncScheduler({
+      concurrency,
+      autoStart: true,
+      retain: false, // 长期复用，不保留已结束的分片任务
+    });
+  }
+
+  /**
+   * 列出未完成且未过期的上传会话（需要配置 sessionStore），过期的会话会被删除
+   */
+  public async listSessions(): Promise<UploadSession[]> {
+    if (!this._sessionStore) return [];
+
+    const sessions: UploadSession[] = [];
+    for (const session of await this._sessionStore.list()) {
+      if (this._isExpired(session)) {
+        await this._sessionStore.delete(session.fileId);
+      } else {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  // 删除上传会话（不影响服务端已上传的分片）
+  public async removeSession(fileId: string) {
+    await this._sessionStore?.delete(fileId);
+  }
+
+  // 注册事件，返回取消订阅函数
+  public on<E extends UploaderEventType>(
+    event: E,
+    callback: Listener<UploaderEvents[E]>
+  ): () => void {
+    return this._emitter.on(event, callback);
+  }
+
+  public off<E extends UploaderEventType>(
+    event: E,
+    callback: Listener<UploaderEvents[E]>
+  ) {
+    this._emitter.off(event, callback);
+  }
+
+  public once<E extends UploaderEventType>(
+    event: E,
+    callback: Listener<UploaderEvents[E]>
+  ): () => void {
+    return this._emitter.once(event, callback);
+  }
+
+  // 以异步迭代器的形式消费事件
+  public events(
+    options?: EventStreamOptions<UploaderEvents>
+  ): AsyncIterableIterator<EmittedEvent<UploaderEvents>> {
+    return this._emitter.events(options);
+  }
+
+  protected _emit<E extends UploaderEventType>(
+    event: E,
+    ...args: UploaderEvents[E]
+  ) {
+    this._emitter.emit(event, ...args);
+  }
+
+  // 读取文件中的一段数据，用于计算分片摘要
+  protected abstract _readRange(
+    task: Task,
+    start: number,
+    end: number
+  ): Promise<BufferSource>;
+
+  protected abstract _progress(task: Task): UploadProgress;
+
+  // 本地会话中与平台相关的文件信息（如浏览器端的文件名）
+  protected _sessionFields(_task: Task): Partial<UploadSession> {
+    return {};
+  }
+
+  // 查询已上传的分片，失败时返回 null
+  protected async _getUploadedChunks(
+    task: Task
+  ): Promise<UploadedChunks | null> {
+    for (let attempt = 0; attempt < this._retry; attempt++) {
+      const controller = new AbortController();
+      const timeout = setTimeout(
+        () => controller.abort(new TimeoutError(this._endpoint, this._timeout)),
+        this._timeout
+      );
+      const startedAt = Date.now();
+
+      try {
+        const res = await this._transport.status(
+          this._transportFile(task),
+          controller.signal
+        );
+        // 查询请求很小，耗时近似为 RTT
+        this._sizer?.recordRtt(Date.now() - startedAt);
+        return res;
+      } catch (err) {
+        console.warn(`[getUploadedChunks] attempt ${attempt + 1} failed:`, err);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    return null;
+  }
+
+  // 秒传：服务端已有合并好的同一文件时，跳过上传与合并
+  protected _instantResult(
+    task: Task,
+    status: UploadedChunks | null
+  ): UploadResult | null {
+    if (!status?.file) return null;
+    task.uploadedBytes = task.size;
+    return { ...status.file, instant: true };
+  }
+
+  // 记录已上传的分片，返回还需要上传的区间
+  // 查询失败时以本地会话记录的分片为准，而不是从头上传；分片大小可以与本次不同
+  protected _restoreParts(
+    task: Task,
+    status: UploadedChunks | null,
+    session: UploadSession | null
+  ): ByteRange[] {
+    const parts = selectParts(status?.parts ?? session?.parts ?? [], task.size);
+    task.uploadId = status?.uploadId ?? task.uploadId;
+    for (const { start, end } of parts) {
+      task.parts.set(start, end);
+      task.uploadedBytes += end - start;
+    }
+    return missingRanges(parts, task.size);
+  }
+
+  // 发送一次分片请求，超过 timeout 时以 TimeoutError 中止
+  protected async _sendChunk(
+    task: Task,
+    chunk: TransportChunk,
+    signal: AbortSignal,
+    onProgress?: (loaded: number) => void
+  ) {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(new TimeoutError(this._endpoint, this._timeout)),
+      this._timeout
+    );
+    try {
+      await this._transport.uploadChunk(
+        this._transportFile(task),
+        chunk,
+        AbortSignal.any([signal, controller.signal]),
+        onProgress
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // 按 retry 重试分片；取消后，或错误不可重试（如 4xx）时不再重试
+  protected async _withRetry(
+    task: Task,
+    offset: number,
+    signal: AbortSignal,
+    attempt: () => Promise<void>,
+    onRetry?: (error: unknown) => void
+  ) {
+    const attempts = Math.max(this._retry, 1);
+    for (let i = 0; ; i++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (signal.aborted || !isRetryableError(error) || i + 1 >= attempts) {
+          throw new Error(
+            `Chunk at offset ${offset} failed after ${i + 1} attempts.`,
+            { cause: error }
+          );
+        }
+        onRetry?.(error);
+        this._emit("retry", task.fileId, offset, i + 1, error);
+      }
+    }
+  }
+
+  // 通知服务端合并；校验失败时只重新上传损坏的分片，再次合并
+  protected async _merge(
+    task: Task,
+    reupload: (ranges: ByteRange[]) => Promise<void>
+  ): Promise<UploadResult> {
+    const attempts = Math.max(this._retry, 1);
+    for (let attempt = 1; ; attempt++) {
+      const response = await this._complete(task);
+      if (response.success !== false) {
+        const { success: _, ...result } = response;
+        return result;
+      }
+
+      const corrupted = response.corrupted ?? [];
+      if (corrupted.length === 0 || attempt >= attempts) {
+        throw new Error(response.error ?? "Merge failed");
+      }
+      this._emit("corrupted", task.fileId, corrupted);
+      const ranges: ByteRange[] = [];
+      for (const offset of corrupted) {
+        const end = task.parts.get(offset);
+        if (end == null) continue;
+        task.parts.delete(offset);
+        task.uploadedBytes -= end - offset;
+        ranges.push({ start: offset, end });
+      }
+      await reupload(ranges);
+    }
+  }
+
+  // 上传完成（包括秒传）
+  protected _finish(task: Task, result: UploadResult) {
+    this._emit("complete", task.fileId, result);
+    this._deleteSession(task.fileId);
+  }
+
+  private async _complete(task: Task): Promise<MergeResponse> {
+    const parts: (ChunkRange & { digest?: string })[] = sortParts(task.parts);
+    let partsDigest: string | undefined;
+
+    // 开启 checksum 时每个分片附带摘要，以及由分片摘要依次拼接后再计算的组合摘要
+    if (this._checksum && this._transport.partDigests) {
+      const digests: string[] = [];
+      for (const part of parts) {
+        const end = part.offset + part.length;
+        part.digest = await this._chunkDigest(task, part.offset, end);
+        digests.push(part.digest);
+      }
+      partsDigest = await digestHex(
+        this._checksum,
+        new TextEncoder().encode(digests.join(""))
+      );
+    }
+
+    return this._transport.complete(this._transportFile(task), {
+      parts,
+      partsDigest,
+    });
+  }
+
+  protected _transportFile(task: Task): TransportFile {
+    const { fileId, size, metadata, uploadId, sha256 } = task;
+    return { fileId, size, metadata, uploadId, sha256 };
+  }
+
+  // 分片摘要只计算一次（断点续传跳过的分片在合并前才读取计算）
+  protected async _chunkDigest(
+    task: Task,
+    start: number,
+    end: number,
+    data?: BufferSource
+  ): Promise<string> {
+    const key = `${start}-${end}`;
+    let digest = task.digests.get(key);
+    if (digest == null) {
+      data ??= await this._readRange(task, start, end);
+      digest = await digestHex(this._checksum!, data);
+      task.digests.set(key, digest);
+    }
+    return digest;
+  }
+
+  protected async _loadSession(fileId: string): Promise<UploadSession | null> {
+    if (!this._sessionStore) return null;
+    try {
+      const session = await this._sessionStore.get(fileId);
+      if (!session || !this._isExpired(session)) return session;
+      await this._sessionStore.delete(fileId);
+    } catch (err) {
+      console.warn(`[loadSession] failed:`, err);
+    }
+    return null;
+  }
+
+  private _isExpired(session: UploadSession): boolean {
+    return session.updatedAt + this._sessionTTL < Date.now();
+  }
+
+  // 会话写入串行进行，失败不影响上传
+  private _writeSession(write: (store: SessionStore) => Promise<void>) {
+    const store = this._sessionStore;
+    if (!store) return;
+    this._sessionWriting = this._sessionWriting
+      .then(() => write(store))
+      .catch((err) => console.warn(`[saveSession] failed:`, err));
+  }
+
+  protected _saveSession(task: Task) {
+    const { fileId, size, metadata, uploadId, createdAt } = task;
+    const session: UploadSession = {
+      fileId,
+      ...this._sessionFields(task),
+      size,
+      parts: sortParts(task.parts),
+      metadata,
+      uploadId,
+      createdAt,
+      updatedAt: Date.now(),
+    };
+    this._writeSession((store) => store.set(session));
+  }
+
+  protected _deleteSession(fileId: string) {
+    this._writeSession((store) => store.delete(fileId));
+  }
+}
+
+// 已上传的分片按 offset 排序，用于会话与合并请求
+function sortParts(parts: Map<number, number>): ChunkRange[] {
+  return [...parts]
+    .sort(([a], [b]) => a - b)
+    .map(([offset, end]) => ({ offset, length: end - offset }));
+}
+
+// Web Crypto 在浏览器与 Node.js 中均可用
+async function digestHex(
+  algorithm: ChecksumAlgorithm,
+  data: BufferSource
+): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(algorithm, data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,65 @@
+export interface AdaptiveChunkOptions {
+  minChunkSize?: number; // 默认 256KB
+  maxChunkSize?: number; // 默认 32MB，不应超过服务端的请求体限制
+  targetDuration?: number; // 期望单个分片的上传耗时（ms），默认 3000
+}
+
+/**
+ * 自适应分片大小：根据分片的上传耗时与 RTT 估算带宽，让后续分片的耗时接近 targetDuration
+ *
+ * 每次最多扩大或缩小一倍，避免单次测量的抖动；超时后直接减半
+ */
+export class ChunkSizer {
+  private _size: number;
+  private _min: number;
+  private _max: number;
+  private _target: number;
+  private _rtt = 0; // ms
+  private _bandwidth = 0; // 字节/ms，0 表示还没有样本
+
+  constructor(
+    size: number,
+    {
+      minChunkSize = 256 * 1024,
+      maxChunkSize = 32 * 1024 * 1024,
+      targetDuration = 3000,
+    }: AdaptiveChunkOptions = {}
+  ) {
+    this._min = minChunkSize;
+    this._max = Math.max(maxChunkSize, minChunkSize);
+    this._target = targetDuration;
+    this._size = this._clamp(size);
+  }
+
+  public get size(): number {
+    return this._size;
+  }
+
+  // 记录一次小请求（如 /status）的往返时间
+  public recordRtt(duration: number) {
+    this._rtt = this._rtt > 0 ? this._rtt * 0.7 + duration * 0.3 : duration;
+  }
+
+  // 记录一个分片从发送到收到响应的耗时
+  public record(bytes: number, duration: number) {
+    const sample = bytes / Math.max(duration - this._rtt, 1);
+    this._bandwidth =
+      this._bandwidth > 0 ? this._bandwidth * 0.7 + sample * 0.3 : sample;
+
+    // RTT 接近目标耗时时至少留一半时间传输数据
+    const budget = Math.max(this._target - this._rtt, this._target / 2);
+    const ideal = this._bandwidth * budget;
+    this._size = this._clamp(
+      Math.min(Math.max(ideal, this._size / 2), this._size * 2)
+    );
+  }
+
+  // 分片超时：网络可能突然变差，下一个分片减半
+  public shrink() {
+    this._size = this._clamp(this._size / 2);
+  }
+
+  private _clamp(size: number): number {
+    return Math.round(Math.min(Math.max(size, this._min), this._max));
+  }
+}
@@ -0,0 +1,133 @@
+// SHA-256 轮常量
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * 增量 SHA-256：Web Crypto 只能一次性计算摘要，大文件需要分段 update 才不必整体读入内存
+ */
+export class Sha256 {
+  private _state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private _block = new Uint8Array(64); // 未满 64 字节的剩余数据
+  private _blockLength = 0;
+  private _length = 0; // 已输入的总字节数
+  private _words = new Uint32Array(64);
+  private _finished = false;
+
+  public update(data: Uint8Array): this {
+    if (this._finished) throw new Error("Sha256 digest already computed");
+
+    let offset = 0;
+    this._length += data.length;
+
+    // 先补满上次剩余的块
+    if (this._blockLength > 0) {
+      const take = Math.min(64 - this._blockLength, data.length);
+      this._block.set(data.subarray(0, take), this._blockLength);
+      this._blockLength += take;
+      offset = take;
+      if (this._blockLength < 64) return this;
+      this._compress(this._block, 0);
+      this._blockLength = 0;
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this._compress(data, offset);
+    }
+
+    this._block.set(data.subarray(offset), 0);
+    this._blockLength = data.length - offset;
+    return this;
+  }
+
+  // 返回十六进制摘要，之后不能再 update
+  public digest(): string {
+    if (!this._finished) {
+      const bitLength = this._length * 8;
+      const padding = new Uint8Array(
+        this._blockLength < 56
+          ? 64 - this._blockLength
+          : 128 - this._blockLength
+      );
+      padding[0] = 0x80;
+      const view = new DataView(padding.buffer);
+      view.setUint32(padding.length - 8, Math.floor(bitLength / 2 ** 32));
+      view.setUint32(padding.length - 4, bitLength >>> 0);
+      this.update(padding);
+      this._finished = true;
+    }
+
+    return Array.from(this._state)
+      .map((word) => word.toString(16).padStart(8, "0"))
+      .join("");
+  }
+
+  private _compress(data: Uint8Array, offset: number) {
+    const w = this._words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] =
+        (data[j] << 24) |
+        (data[j + 1] << 16) |
+        (data[j + 2] << 8) |
+        data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const a = w[i - 15];
+      const b = w[i - 2];
+      const s0 = rotr(a, 7) ^ rotr(a, 18) ^ (a >>> 3);
+      const s1 = rotr(b, 17) ^ rotr(b, 19) ^ (b >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    const s = this._state;
+    let [a, b, c, d, e, f, g, h] = s;
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        (h +
+          (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) +
+          ((e & f) ^ (~e & g)) +
+          K[i] +
+          w[i]) |
+        0;
+      const t2 =
+        ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) +
+          ((a & b) ^ (a & c) ^ (b & c))) |
+        0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    s[0] += a;
+    s[1] += b;
+    s[2] += c;
+    s[3] += d;
+    s[4] += e;
+    s[5] += f;
+    s[6] += g;
+    s[7] += h;
+  }
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
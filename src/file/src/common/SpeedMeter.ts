@@ -0,0 +1,55 @@
+import type { UploadProgress } from "./type";
+
+/**
+ * 滑动窗口测速：只统计最近 window 毫秒内的字节数，避免暂停、网络抖动让速度长时间失真
+ */
+export class SpeedMeter {
+  private _window: number;
+  private _samples: { time: number; bytes: number }[] = [];
+  private _bytes = 0; // 累计字节数
+
+  constructor(window = 5000) {
+    this._window = window;
+    this.reset();
+  }
+
+  public record(bytes: number, time = Date.now()) {
+    this._bytes += bytes;
+    this._samples.push({ time, bytes: this._bytes });
+    // 至少保留两个样本才能计算速度
+    while (
+      this._samples.length > 2 &&
+      this._samples[1].time <= time - this._window
+    ) {
+      this._samples.shift();
+    }
+  }
+
+  // 字节/秒，样本不足时为 0
+  public get speed(): number {
+    const first = this._samples[0];
+    const last = this._samples[this._samples.length - 1];
+    const elapsed = last.time - first.time;
+    return elapsed > 0 ? ((last.bytes - first.bytes) * 1000) / elapsed : 0;
+  }
+
+  // 重新开始计时（开始或恢复上传时调用）
+  public reset(time = Date.now()) {
+    this._bytes = 0;
+    this._samples = [{ time, bytes: 0 }];
+  }
+}
+
+export function toProgress(
+  loaded: number,
+  total: number,
+  speed: number
+): UploadProgress {
+  return {
+    loaded,
+    total,
+    percent: total > 0 ? (loaded / total) * 100 : 100,
+    speed,
+    eta: speed > 0 ? (total - loaded) / speed : Infinity,
+  };
+}
@@ -0,0 +1,127 @@
+import type { RawResponse } from "./type";
+
+/**
+ * Requester 抛出的请求错误，网络错误（连接失败、DNS 等）直接使用本类
+ */
+export class RequestError extends Error {
+  url: string;
+
+  constructor(message: string, url: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "RequestError";
+    this.url = url;
+  }
+}
+
+// 服务端返回了非 2xx 状态码，body 为解析后的 JSON（解析失败时为原始文本）
+export class HttpError extends RequestError {
+  status: number;
+  body: any;
+
+  constructor(url: string, status: number, body: any) {
+    super(`Request to ${url} failed with status ${status}`, url);
+    this.name = "HttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// 请求超时（由调用方以 TimeoutError 作为 abort reason 中止请求）
+export class TimeoutError extends RequestError {
+  timeout: number;
+
+  constructor(url: string, timeout: number) {
+    super(`Request to ${url} timed out after ${timeout}ms`, url);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+// 请求被调用方取消（暂停、取消上传）
+export class AbortError extends RequestError {
+  constructor(url: string, options?: ErrorOptions) {
+    super(`Request to ${url} was aborted`, url, options);
+    this.name = "AbortError";
+  }
+}
+
+// 2xx 响应不是预期的格式（非 JSON、缺少字段）
+export class ProtocolError extends RequestError {
+  constructor(url: string, message: string, options?: ErrorOptions) {
+    super(`${message} (${url})`, url, options);
+    this.name = "ProtocolError";
+  }
+}
+
+/**
+ * 判断上传请求失败后是否值得重试
+ *
+ * 网络错误、超时、408 / 429 / 5xx 可以重试；422 且 success 为 false 是分片摘要校验失败，
+ * 460 是 tus 的分片摘要校验失败，重新发送即可；其余 4xx、取消与协议错误重试也不会成功
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    const { status, body } = error;
+    return (
+      status === 408 ||
+      status === 429 ||
+      status === 460 ||
+      status >= 500 ||
+      (status === 422 && body?.success === false)
+    );
+  }
+  if (error instanceof AbortError || error instanceof ProtocolError) {
+    return false;
+  }
+  return true;
+}
+
+// 按状态码与内容解析 JSON 响应
+export function parseResponse<T>(url: string, status: number, text: string): T {
+  let body: any = text;
+  let parseError: unknown = null;
+  try {
+    body = JSON.parse(text);
+  } catch (err) {
+    parseError = err;
+  }
+
+  if (!isSuccess(status)) throw new HttpError(url, status, body);
+  if (parseError) {
+    throw new ProtocolError(url, "Invalid JSON response", {
+      cause: parseError,
+    });
+  }
+  return body;
+}
+
+// 原始响应：非 2xx 时抛出 HttpError（body 尽量解析为 JSON）
+export function checkResponse(url: string, response: RawResponse): RawResponse {
+  if (isSuccess(response.status)) return response;
+  let body: any = response.body;
+  try {
+    body = JSON.parse(body);
+  } catch {
+    // 保留原始文本
+  }
+  throw new HttpError(url, response.status, body);
+}
+
+function isSuccess(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+// 把底层请求的异常统一转换为 RequestError
+export function toRequestError(
+  url: string,
+  error: unknown,
+  signal?: AbortSignal
+): RequestError {
+  if (error instanceof RequestError) return error;
+  if (signal?.aborted) {
+    return signal.reason instanceof TimeoutError
+      ? signal.reason
+      : new AbortError(url, { cause: signal.reason });
+  }
+  return new RequestError(`Request to ${url} failed`, url, { cause: error });
+}
@@ -0,0 +1,28 @@
+import { Sha256 } from "./Sha256";
+import type { HashProgress } from "./type";
+
+export interface HashFileOptions {
+  sliceSize?: number; // 每次读入内存的字节数
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 分段读取整个文件并增量计算 SHA-256，内存中同时只保留一段数据
+ */
+export async function hashFile(
+  file: Blob,
+  { sliceSize = 4 * 1024 * 1024, onProgress, signal }: HashFileOptions = {}
+): Promise<string> {
+  const hash = new Sha256();
+  const total = file.size;
+
+  for (let start = 0; start < total; start += sliceSize) {
+    signal?.throwIfAborted();
+    const end = Math.min(start + sliceSize, total);
+    hash.update(new Uint8Array(await file.slice(start, end).arrayBuffer()));
+    onProgress?.({ loaded: end, total, percent: (end / total) * 100 });
+  }
+
+  return hash.digest();
+}
@@ -0,0 +1,68 @@
+import type { ChunkRange } from "./type";
+
+// 文件中的字节区间 [start, end)
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 从服务端或本地会话记录的分片中选出可用于合并的分片（按 offset 排序）
+ *
+ * 越界的分片，以及与已选分片重叠的分片（分片大小变化前后残留的旧分片）会被忽略，其覆盖的区间重新上传
+ */
+export function selectParts(parts: ChunkRange[], size: number): ByteRange[] {
+  const selected: ByteRange[] = [];
+  let cursor = 0;
+  for (const { offset, length } of [...parts].sort(
+    (a, b) => a.offset - b.offset
+  )) {
+    const end = offset + length;
+    if (length <= 0 || offset < cursor || end > size) continue;
+    selected.push({ start: offset, end });
+    cursor = end;
+  }
+  return selected;
+}
+
+// [0, size) 中未被 parts（已排序且不重叠）覆盖的区间
+export function missingRanges(parts: ByteRange[], size: number): ByteRange[] {
+  const missing: ByteRange[] = [];
+  let cursor = 0;
+  for (const { start, end } of parts) {
+    if (start > cursor) missing.push({ start: cursor, end: start });
+    cursor = end;
+  }
+  if (cursor < size) missing.push({ start: cursor, end: size });
+  return missing;
+}
+
+// 按 start 插入区间，并与相邻的区间合并
+export function insertRange(ranges: ByteRange[], range: ByteRange) {
+  let i = ranges.findIndex(({ start }) => start > range.start);
+  if (i === -1) i = ranges.length;
+  ranges.splice(i, 0, { start: range.start, end: range.end });
+
+  const previous = ranges[i - 1];
+  if (previous && previous.end >= ranges[i].start) {
+    previous.end = Math.max(previous.end, ranges[i].end);
+    ranges.splice(i, 1);
+    i--;
+  }
+  const next = ranges[i + 1];
+  if (next && ranges[i].end >= next.start) {
+    ranges[i].end = Math.max(ranges[i].end, next.end);
+    ranges.splice(i + 1, 1);
+  }
+}
+
+// 把区间按固定大小切分
+export function splitRanges(ranges: ByteRange[], size: number): ByteRange[] {
+  const pieces: ByteRange[] = [];
+  for (const range of ranges) {
+    for (let start = range.start; start < range.end; start += size) {
+      pieces.push({ start, end: Math.min(start + size, range.end) });
+    }
+  }
+  return pieces;
+}
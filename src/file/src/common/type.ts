@@ -1,3 +1,6 @@
+/**
+ * 网络请求实现：返回解析后的 JSON，失败时抛出 errors.ts 中的 RequestError 及其子类
+ */
 export interface Requester {
   get<T = any>(url: string, signal?: AbortSignal): Promise<T>;
   post<T = any>(
@@ -10,11 +13,130 @@ export interface Requester {
     url: string,
     chunk: Blob,
     headers?: Record<string, string>,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void // 已发送字节数，不支持时可忽略
   ): Promise<T>;
+  // 任意方法的请求，返回响应头与原始响应体（tus 等需要读取响应头的协议使用）
+  request?(
+    method: string,
+    url: string,
+    options?: RawRequestOptions
+  ): Promise<RawResponse>;
+}
+
+export interface RawRequestOptions {
+  headers?: Record<string, string>;
+  body?: Blob | string | null;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// 非 2xx 响应同样抛出 HttpError
+export interface RawResponse {
+  status: number;
+  headers: Record<string, string>; // 响应头名均为小写
+  body: string;
+}
+
+// 分片在文件中的字节区间，分片大小可以各不相同
+export interface ChunkRange {
+  offset: number;
+  length: number;
 }
 
 export interface UploadedChunks {
-  uploaded: number[];
-  totalChunks: number;
+  parts: ChunkRange[]; // 服务端已保存的分片
+  file?: UploadResult; // 服务端已有内容相同（sha256 一致）的合并好的文件，可直接秒传
+  uploadId?: string; // 服务端上传会话 id，会记录到本地会话中
+}
+
+// /merge 接口的返回
+export interface UploadResult {
+  fileId: string;
+  savedPath: string;
+  metadata: Record<string, any>;
+  instant?: boolean; // 秒传：服务端已有该文件，没有上传任何分片
+}
+
+// 分片与整体校验使用的摘要算法（Web Crypto 与 node:crypto 均支持）
+export type ChecksumAlgorithm = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512";
+
+// 校验失败时 success 为 false，corrupted 为需要重新上传的分片 offset
+export type MergeResponse =
+  | ({ success?: true } & UploadResult)
+  | { success: false; error?: string; corrupted?: number[] };
+
+export type UploadStatus =
+  | "pending" // 已创建，等待 resume 开始上传（autoStart 为 false）
+  | "uploading"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "canceled";
+
+export interface UploadProgress {
+  loaded: number; // 已上传字节数（含断点续传前已上传的分片）
+  total: number;
+  percent: number; // 0 ~ 100
+  speed: number; // 最近一段时间的上传速度（字节/秒）
+  eta: number; // 预计剩余时间（秒），速度未知时为 Infinity
+}
+
+// 全量 hash 的进度
+export interface HashProgress {
+  loaded: number; // 已计算字节数
+  total: number;
+  percent: number; // 0 ~ 100
+}
+
+export interface UploadTaskStatus {
+  fileId: string;
+  status: UploadStatus;
+  progress: UploadProgress;
+  uploadedChunks: number;
+  totalChunks: number; // 按当前分片大小估算，自适应分片时会变化
+}
+
+export interface UploadOptions {
+  priority?: number; // 文件优先级，数值越大的文件的分片越先上传
+}
+
+// uploadFiles 返回的单个文件结果
+export interface UploadSettledResult {
+  file: File;
+  status: "completed" | "failed" | "canceled";
+  result?: UploadResult;
+  error?: any;
+}
+
+export interface PauseOptions {
+  abort?: boolean; // 是否中止上传中的分片（默认等待其完成）
+}
+
+export interface CancelOptions {
+  discard?: boolean; // 是否通知服务端删除已上传的分片
+}
+
+// 事件名 -> 回调参数
+export interface UploaderEvents {
+  hashProgress: [file: File | Blob, progress: HashProgress]; // 全量 hash 进度（此时还没有 fileId）
+  pending: [fileId: string]; // 任务已创建，等待 resume
+  start: [fileId: string];
+  progress: [fileId: string, progress: UploadProgress];
+  totalProgress: [progress: UploadProgress]; // 所有未取消任务的总进度
+  // 分片以在文件中的 offset 标识
+  chunkProgress: [
+    fileId: string,
+    offset: number,
+    loaded: number,
+    total: number
+  ];
+  chunkUploaded: [fileId: string, offset: number, length: number];
+  retry: [fileId: string, offset: number, attempt: number, error: any];
+  corrupted: [fileId: string, offsets: number[]]; // 合并校验失败，重新上传这些分片
+  paused: [fileId: string];
+  resumed: [fileId: string];
+  cancel: [fileId: string];
+  complete: [fileId: string, result: UploadResult];
+  error: [fileId: string, error: any];
 }
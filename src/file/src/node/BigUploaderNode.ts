@@ -0,0 +1,331 @@
+import type { FileHandle } from "node:fs/promises";
+import type { Readable } from "node:stream";
+import { BaseUploader, type BaseUploadTask } from "../common/BaseUploader";
+import { splitRanges, type ByteRange } from "../common/ranges";
+import { SpeedMeter, toProgress } from "../common/SpeedMeter";
+import type { UploadProgress, UploadResult } from "../common/type";
+import type { UploadSession } from "../session/type";
+import { NodeRequester } from "./api/requester";
+import type {
+  NodeChunk,
+  NodeInitOptions,
+  NodeUploadOptions,
+  NodeUploadSource,
+} from "./type";
+
+// 单个文件的上传任务
+interface NodeUploadTask extends BaseUploadTask {
+  file: FileHandle;
+}
+
+/**
+ * Node.js 端的大文件分片上传
+ *
+ * 按区间读取文件分片，内存中只保留正在上传的分片；Readable 先缓存到临时文件再上传。
+ * 与浏览器端 BigUploader 使用相同的上传协议（protocol 选项），
+ * 默认 fileId 与浏览器端 hashMode: "full" 一致，同一文件在两端可以互相续传。
+ * 分片以 offset 标识，续传时服务端已有的分片大小可以与 chunkSize 不同
+ */
+export class BigUploaderNode extends BaseUploader<NodeUploadTask> {
+  private _tmpDir: string | null;
+
+  // 用户自定义的计算 hash 的函数
+  private _computeHash: ((path: string) => Promise<string>) | null;
+
+  constructor({
+    endpoint,
+    chunkSize = 5 * 1024 * 1024,
+    concurrency = 3,
+    retry = 3,
+    timeout = 30000,
+    header = {},
+    computeHash = null,
+    metadata = {},
+    checksum = "SHA-256",
+    requester = new NodeRequester(),
+    protocol = "default",
+    tmpDir,
+    sessionStore = null,
+    sessionTTL = 7 * 24 * 60 * 60 * 1000,
+  }: NodeInitOptions) {
+    super({
+      endpoint,
+      chunkSize,
+      concurrency,
+      retry,
+      timeout,
+      header,
+      metadata,
+      checksum,
+      requester,
+      protocol,
+      sessionStore,
+      sessionTTL,
+    });
+    this._tmpDir = tmpDir ?? null;
+    this._computeHash = computeHash;
+  }
+
+  /**
+   * 上传文件路径或 Readable，所有分片上传并合并完成后返回服务端的合并结果
+   */
+  public async upload(
+    source: NodeUploadSource,
+    metadata: Record<string, any> = {},
+    options: NodeUploadOptions = {}
+  ): Promise<UploadResult> {
+    if (typeof source === "string") {
+      return this._uploadPath(source, null, metadata, options);
+    }
+
+    const { rm } = await import("node:fs/promises");
+    const spooled = await this._spool(source, options.signal);
+    try {
+      return await this._uploadPath(
+        spooled.path,
+        spooled.hash,
+        metadata,
+        options
+      );
+    } finally {
+      await rm(spooled.path, { force: true });
+    }
+  }
+
+  private async _uploadPath(
+    path: string,
+    hash: string | null,
+    metadata: Record<string, any>,
+    { priority = 0, signal }: NodeUploadOptions
+  ): Promise<UploadResult> {
+    const { open } = await import("node:fs/promises");
+    const file = await open(path, "r");
+
+    try {
+      const { size } = await file.stat();
+      // 默认 fileId 由文件内容的 sha256 得到，同时用于秒传
+      const sha256 = this._computeHash
+        ? undefined
+        : hash ?? (await hashPath(path));
+      const fileId = this._computeHash
+        ? await this._computeHash(path)
+        : `${sha256}_${size}`;
+      const session = await this._loadSession(fileId);
+      const task: NodeUploadTask = {
+        fileId,
+        file,
+        size,
+        metadata: { ...this._metadata, ...metadata },
+        priority,
+        parts: new Map(),
+        uploadedBytes: 0,
+        meter: new SpeedMeter(),
+        digests: new Map(),
+        uploadId: session?.uploadId, // tus 据此 HEAD 原上传地址续传
+        createdAt: session?.createdAt ?? Date.now(),
+        sha256,
+      };
+
+      try {
+        signal?.throwIfAborted();
+        return await this._transfer(task, session, signal);
+      } catch (err) {
+        if (signal?.aborted) {
+          this._emit("cancel", fileId);
+          this._deleteSession(fileId);
+          throw new Error("Upload Cancelled", { cause: err });
+        }
+        this._emit("error", fileId, err);
+        throw err;
+      }
+    } finally {
+      await file.close();
+    }
+  }
+
+  private async _transfer(
+    task: NodeUploadTask,
+    session: UploadSession | null,
+    signal?: AbortSignal
+  ): Promise<UploadResult> {
+    const { fileId } = task;
+    const status = await this._getUploadedChunks(task);
+
+    const instant = this._instantResult(task, status);
+    if (instant) {
+      this._emit("progress", fileId, this._progress(task));
+      this._finish(task, instant);
+      return instant;
+    }
+
+    const pending = this._split(this._restoreParts(task, status, session));
+    this._saveSession(task);
+
+    this._emit("start", fileId);
+    task.meter.reset();
+    await this._uploadChunks(task, pending, signal); // 并发上传
+
+    // 通知后端合并，损坏的分片重新上传
+    const result = await this._merge(task, (ranges) =>
+      this._uploadChunks(task, this._split(ranges), signal)
+    );
+    this._finish(task, result);
+    return result;
+  }
+
+  private _split(ranges: ByteRange[]): NodeChunk[] {
+    return splitRanges(ranges, this._chunkSize);
+  }
+
+  // 分片进入共享调度器，任一分片最终失败时中止同一文件的其余分片
+  // 协议要求按顺序上传时（tus），上一个分片完成后才加入下一个
+  private async _uploadChunks(
+    task: NodeUploadTask,
+    chunks: NodeChunk[],
+    signal?: AbortSignal
+  ) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    const schedule = (chunk: NodeChunk) =>
+      this._scheduler.addTask(
+        (taskSignal) => this._uploadChunk(task, chunk, taskSignal),
+        { priority: task.priority, signal: controller.signal }
+      ).promise;
+
+    try {
+      if (this._transport.sequential) {
+        for (const chunk of chunks) await schedule(chunk);
+      } else {
+        await Promise.all(chunks.map(schedule));
+      }
+    } catch (err) {
+      controller.abort();
+      throw err;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private async _uploadChunk(
+    task: NodeUploadTask,
+    chunk: NodeChunk,
+    signal: AbortSignal
+  ) {
+    const size = chunk.end - chunk.start;
+    const data = await this._readChunk(task, chunk);
+    const digest = this._checksum
+      ? await this._chunkDigest(task, chunk.start, chunk.end, data)
+      : undefined;
+
+    await this._withRetry(task, chunk.start, signal, () =>
+      this._sendChunk(
+        task,
+        { offset: chunk.start, length: size, data: new Blob([data]), digest },
+        signal
+      )
+    );
+
+    task.parts.set(chunk.start, chunk.end);
+    task.uploadedBytes += size;
+    task.meter.record(size);
+    this._emit("chunkUploaded", task.fileId, chunk.start, size);
+    this._saveSession(task);
+    this._emit("progress", task.fileId, this._progress(task));
+  }
+
+  // 按区间读取分片
+  private async _readChunk(
+    task: NodeUploadTask,
+    chunk: NodeChunk
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const length = chunk.end - chunk.start;
+    const buffer = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const { bytesRead } = await task.file.read(
+        buffer,
+        offset,
+        length - offset,
+        chunk.start + offset
+      );
+      if (bytesRead === 0) {
+        throw new Error(`Unexpected end of file at offset ${chunk.start}`);
+      }
+      offset += bytesRead;
+    }
+    return buffer;
+  }
+
+  // 把 Readable 写入临时文件，同时计算整个文件的 SHA-256
+  private async _spool(
+    source: Readable,
+    signal?: AbortSignal
+  ): Promise<{ path: string; hash: string }> {
+    const [
+      { createHash, randomUUID },
+      { createWriteStream },
+      fsp,
+      os,
+      nodePath,
+      { pipeline },
+    ] = await Promise.all([
+      import("node:crypto"),
+      import("node:fs"),
+      import("node:fs/promises"),
+      import("node:os"),
+      import("node:path"),
+      import("node:stream/promises"),
+    ]);
+
+    const path = nodePath.join(
+      this._tmpDir ?? os.tmpdir(),
+      `big-uploader-${randomUUID()}`
+    );
+    const hash = createHash("sha256");
+
+    try {
+      await pipeline(
+        source,
+        async function* (stream: AsyncIterable<Buffer>) {
+          for await (const data of stream) {
+            hash.update(data);
+            yield data;
+          }
+        },
+        createWriteStream(path),
+        { signal }
+      );
+    } catch (err) {
+      await fsp.rm(path, { force: true });
+      throw err;
+    }
+
+    return { path, hash: hash.digest("hex") };
+  }
+
+  protected _progress(task: NodeUploadTask): UploadProgress {
+    return toProgress(task.uploadedBytes, task.size, task.meter.speed);
+  }
+
+  protected _readRange(
+    task: NodeUploadTask,
+    start: number,
+    end: number
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    return this._readChunk(task, { start, end });
+  }
+}
+
+async function hashPath(path: string): Promise<string> {
+  const [{ createHash }, { createReadStream }] = await Promise.all([
+    import("node:crypto"),
+    import("node:fs"),
+  ]);
+  const hash = createHash("sha256");
+  for await (const data of createReadStream(path)) {
+    hash.update(data);
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,129 @@
+import {
+  checkResponse,
+  parseResponse,
+  toRequestError,
+} from "../../common/errors";
+import type {
+  RawRequestOptions,
+  RawResponse,
+  Requester,
+} from "../../common/type";
+
+/**
+ * 基于 node:http / node:https 的 Requester，url 需为绝对地址
+ */
+export class NodeRequester implements Requester {
+  async get<T = any>(url: string, signal?: AbortSignal): Promise<T> {
+    return this._request<T>("GET", url, undefined, {}, signal);
+  }
+  async post<T = any>(
+    url: string,
+    data: any,
+    headers?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this._request<T>(
+      "POST",
+      url,
+      Buffer.from(JSON.stringify(data)),
+      { "Content-Type": "application/json", ...headers },
+      signal
+    );
+  }
+  async uploadChunk<T = any>(
+    url: string,
+    chunk: Blob,
+    headers?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this._request<T>(
+      "POST",
+      url,
+      Buffer.from(await chunk.arrayBuffer()),
+      { "Content-Type": "application/octet-stream", ...headers },
+      signal
+    );
+  }
+
+  async request(
+    method: string,
+    url: string,
+    { headers = {}, body, signal }: RawRequestOptions = {}
+  ): Promise<RawResponse> {
+    const data =
+      body == null
+        ? undefined
+        : typeof body === "string"
+        ? Buffer.from(body)
+        : Buffer.from(await body.arrayBuffer());
+    return checkResponse(
+      url,
+      await this._send(method, url, data, headers, signal)
+    );
+  }
+
+  private async _request<T>(
+    method: string,
+    url: string,
+    body: Buffer | undefined,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { status, body: text } = await this._send(
+      method,
+      url,
+      body,
+      headers,
+      signal
+    );
+    return parseResponse<T>(url, status, text);
+  }
+
+  private async _send(
+    method: string,
+    url: string,
+    body: Buffer | undefined,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<RawResponse> {
+    const target = new URL(url);
+    // 动态引入，避免浏览器端打包时解析 node 内置模块
+    const { request } =
+      target.protocol === "https:"
+        ? await import("node:https")
+        : await import("node:http");
+
+    return new Promise<RawResponse>((resolve, reject) => {
+      const fail = (error: unknown) =>
+        reject(toRequestError(url, error, signal));
+      const req = request(
+        target,
+        {
+          method,
+          headers: body
+            ? { ...headers, "Content-Length": String(body.length) }
+            : headers,
+          signal,
+        },
+        (res) => {
+          const data: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => data.push(chunk));
+          res.on("error", fail);
+          res.on("end", () => {
+            const headers: Record<string, string> = {};
+            for (const [name, value] of Object.entries(res.headers)) {
+              if (value != null) headers[name] = String(value);
+            }
+            resolve({
+              status: res.statusCode ?? 0,
+              headers,
+              body: Buffer.concat(data).toString("utf8"),
+            });
+          });
+        }
+      );
+      req.on("error", fail);
+      req.end(body);
+    });
+  }
+}
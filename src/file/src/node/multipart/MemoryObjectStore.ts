@@ -0,0 +1,262 @@
+import type { MultipartPart, PresignedRequest } from "../../transport/type";
+import { ObjectStoreError } from "./errors";
+import type { CompletedPart, ObjectStore, PartChecksum } from "./type";
+
+export interface MemoryObjectStoreOptions {
+  baseUrl: string; // 预签名 URL 的前缀，发往该地址的 PUT 请求交给 putPart 处理
+  expiresIn?: number; // 预签名 URL 的有效期（秒），默认 3600
+  minPartSize?: number; // 除最后一个分片外的最小分片大小，默认 5MB（与 S3 一致）
+}
+
+type StoredPart = { data: Uint8Array; etag: string };
+
+// 合并完成的对象
+export interface StoredObject {
+  data: Uint8Array;
+  metadata: Record<string, string>;
+}
+
+type MemoryUpload = {
+  key: string;
+  metadata: Record<string, string>;
+  parts: Map<number, StoredPart>;
+};
+
+// 与 S3 一致，只支持 SHA-1 与 SHA-256 摘要
+const CHECKSUM_HEADERS: Record<string, string> = {
+  "SHA-1": "x-amz-checksum-sha1",
+  "SHA-256": "x-amz-checksum-sha256",
+};
+
+/**
+ * 内存中的对象存储，模拟 S3 分段上传与预签名 URL，用于测试与本地开发
+ *
+ * 预签名 URL 以 HMAC 签名 key、uploadId、分片序号、过期时间与摘要，putPart 校验签名后保存分片并返回 ETag
+ */
+export class MemoryObjectStore implements ObjectStore {
+  private _baseUrl: string;
+  private _expiresIn: number;
+  private _minPartSize: number;
+  private _secret = crypto.randomUUID();
+  private _uploads = new Map<string, MemoryUpload>(); // uploadId -> 上传
+  private _objects = new Map<string, StoredObject>(); // key -> 合并后的对象
+
+  constructor({
+    baseUrl,
+    expiresIn = 3600,
+    minPartSize = 5 * 1024 * 1024,
+  }: MemoryObjectStoreOptions) {
+    this._baseUrl = baseUrl.replace(/\/+$/, "");
+    this._expiresIn = expiresIn;
+    this._minPartSize = minPartSize;
+  }
+
+  public async createMultipartUpload(
+    key: string,
+    metadata: Record<string, string>
+  ): Promise<string> {
+    const uploadId = crypto.randomUUID();
+    this._uploads.set(uploadId, { key, metadata, parts: new Map() });
+    return uploadId;
+  }
+
+  public async listParts(
+    key: string,
+    uploadId: string
+  ): Promise<MultipartPart[] | null> {
+    const upload = this._uploads.get(uploadId);
+    if (!upload || upload.key !== key) return null;
+    return [...upload.parts]
+      .sort(([a], [b]) => a - b)
+      .map(([partNumber, { data, etag }]) => ({
+        partNumber,
+        size: data.length,
+        etag,
+      }));
+  }
+
+  public async presignUploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    checksum?: PartChecksum
+  ): Promise<PresignedRequest> {
+    this._getUpload(key, uploadId);
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+      throw new ObjectStoreError(
+        "InvalidArgument",
+        "Part number must be an integer between 1 and 10000"
+      );
+    }
+
+    const headers: Record<string, string> = {};
+    const header = checksum && CHECKSUM_HEADERS[checksum.algorithm];
+    if (header) {
+      headers[header] = Buffer.from(checksum.digest, "hex").toString("base64");
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + this._expiresIn;
+    const url = new URL(`${this._baseUrl}/${encodeURIComponent(key)}`);
+    url.searchParams.set("uploadId", uploadId);
+    url.searchParams.set("partNumber", String(partNumber));
+    url.searchParams.set("expires", String(expires));
+    url.searchParams.set(
+      "signature",
+      await this._sign(key, uploadId, partNumber, expires, headers)
+    );
+    return { url: url.href, headers };
+  }
+
+  /**
+   * 处理发往预签名 URL 的 PUT 请求，返回分片的 ETag
+   */
+  public async putPart(
+    url: string,
+    headers: Record<string, string>,
+    body: Uint8Array
+  ): Promise<string> {
+    const { pathname, searchParams } = new URL(url, this._baseUrl);
+    const key = decodeURIComponent(pathname.split("/").pop() ?? "");
+    const uploadId = searchParams.get("uploadId") ?? "";
+    const partNumber = Number(searchParams.get("partNumber"));
+    const expires = Number(searchParams.get("expires"));
+
+    // 只有签发时的摘要请求头参与签名
+    const lowerCased = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    );
+    const signed: Record<string, string> = {};
+    for (const header of Object.values(CHECKSUM_HEADERS)) {
+      if (lowerCased[header]) signed[header] = lowerCased[header];
+    }
+
+    const signature = await this._sign(
+      key,
+      uploadId,
+      partNumber,
+      expires,
+      signed
+    );
+    if (searchParams.get("signature") !== signature) {
+      throw new ObjectStoreError(
+        "SignatureDoesNotMatch",
+        "The request signature does not match",
+        403
+      );
+    }
+    if (expires * 1000 < Date.now()) {
+      throw new ObjectStoreError("AccessDenied", "Request has expired", 403);
+    }
+    const upload = this._getUpload(key, uploadId);
+
+    const { createHash } = await import("node:crypto");
+    for (const [algorithm, header] of Object.entries(CHECKSUM_HEADERS)) {
+      const expected = signed[header];
+      const actual = createHash(algorithm.replace("-", "").toLowerCase())
+        .update(body)
+        .digest("base64");
+      if (expected && expected !== actual) {
+        throw new ObjectStoreError(
+          "BadDigest",
+          "The checksum did not match what we received"
+        );
+      }
+    }
+
+    const etag = `"${createHash("md5").update(body).digest("hex")}"`;
+    upload.parts.set(partNumber, { data: new Uint8Array(body), etag });
+    return etag;
+  }
+
+  public async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: CompletedPart[]
+  ): Promise<string> {
+    const upload = this._getUpload(key, uploadId);
+    if (parts.length === 0) {
+      throw new ObjectStoreError(
+        "MalformedXML",
+        "At least one part must be specified"
+      );
+    }
+
+    const chunks: Uint8Array[] = [];
+    parts.forEach(({ partNumber, etag }, i) => {
+      if (i > 0 && partNumber <= parts[i - 1].partNumber) {
+        throw new ObjectStoreError(
+          "InvalidPartOrder",
+          "The list of parts was not in ascending order"
+        );
+      }
+      const part = upload.parts.get(partNumber);
+      if (!part || part.etag !== etag) {
+        throw new ObjectStoreError(
+          "InvalidPart",
+          `Part ${partNumber} could not be found`
+        );
+      }
+      if (i < parts.length - 1 && part.data.length < this._minPartSize) {
+        throw new ObjectStoreError(
+          "EntityTooSmall",
+          `Part ${partNumber} is smaller than the minimum allowed size`
+        );
+      }
+      chunks.push(part.data);
+    });
+
+    const data = new Uint8Array(
+      chunks.reduce((size, chunk) => size + chunk.length, 0)
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this._objects.set(key, { data, metadata: upload.metadata });
+    this._uploads.delete(uploadId);
+    return `${this._baseUrl}/${encodeURIComponent(key)}`;
+  }
+
+  public async abortMultipartUpload(key: string, uploadId: string) {
+    if (this._uploads.get(uploadId)?.key === key) {
+      this._uploads.delete(uploadId);
+    }
+  }
+
+  // 合并后的对象，不存在时返回 null
+  public getObject(key: string): StoredObject | null {
+    return this._objects.get(key) ?? null;
+  }
+
+  private _getUpload(key: string, uploadId: string): MemoryUpload {
+    const upload = this._uploads.get(uploadId);
+    if (!upload || upload.key !== key) {
+      throw new ObjectStoreError(
+        "NoSuchUpload",
+        "The specified multipart upload does not exist",
+        404
+      );
+    }
+    return upload;
+  }
+
+  private async _sign(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expires: number,
+    headers: Record<string, string>
+  ): Promise<string> {
+    const { createHmac } = await import("node:crypto");
+    const signedHeaders = Object.entries(headers)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}:${value}`);
+    return createHmac("sha256", this._secret)
+      .update([key, uploadId, partNumber, expires, ...signedHeaders].join("\n"))
+      .digest("hex");
+  }
+}
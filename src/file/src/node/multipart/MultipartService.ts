@@ -0,0 +1,115 @@
+import type { UploadResult } from "../../common/type";
+import type { MultipartPart, PresignedRequest } from "../../transport/type";
+import { ObjectStoreError } from "./errors";
+import type {
+  AbortMultipartRequest,
+  CompleteMultipartRequest,
+  CreateMultipartRequest,
+  ObjectStore,
+  SignPartRequest,
+} from "./type";
+
+export interface MultipartServiceOptions {
+  store: ObjectStore;
+  keyPrefix?: string; // 对象 key 的前缀，默认 "uploads/"，key 为前缀加 fileId
+}
+
+/**
+ * S3Transport 对应的服务端逻辑，与 web 框架无关：校验请求体后转发给 ObjectStore
+ *
+ * 分片数据不经过服务端，服务端只负责创建分段上传、签发预签名 URL 与合并；参数错误时抛出 ObjectStoreError
+ */
+export class MultipartService {
+  private _store: ObjectStore;
+  private _keyPrefix: string;
+
+  constructor({ store, keyPrefix = "uploads/" }: MultipartServiceOptions) {
+    this._store = store;
+    this._keyPrefix = keyPrefix;
+  }
+
+  public async create({
+    fileId,
+    metadata = {},
+  }: CreateMultipartRequest): Promise<{ uploadId: string }> {
+    // 对象存储的用户元数据只能是字符串
+    const values: Record<string, string> = {};
+    for (const [name, value] of Object.entries(metadata)) {
+      values[name] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+    const uploadId = await this._store.createMultipartUpload(
+      this._key(fileId),
+      values
+    );
+    return { uploadId };
+  }
+
+  // 上传不存在时返回 null，客户端据此重新创建
+  public async listParts(
+    fileId: string,
+    uploadId: string
+  ): Promise<{ parts: MultipartPart[] } | null> {
+    const parts = await this._store.listParts(
+      this._key(fileId),
+      requireString(uploadId, "uploadId")
+    );
+    return parts && { parts };
+  }
+
+  public async sign({
+    fileId,
+    uploadId,
+    partNumber,
+    algorithm,
+    checksum,
+  }: SignPartRequest): Promise<PresignedRequest> {
+    return this._store.presignUploadPart(
+      this._key(fileId),
+      requireString(uploadId, "uploadId"),
+      Number(partNumber),
+      algorithm && checksum ? { algorithm, digest: checksum } : undefined
+    );
+  }
+
+  public async complete({
+    fileId,
+    uploadId,
+    parts,
+    metadata = {},
+  }: CompleteMultipartRequest): Promise<UploadResult> {
+    if (!Array.isArray(parts)) {
+      throw new ObjectStoreError("InvalidRequest", "parts required");
+    }
+    const savedPath = await this._store.completeMultipartUpload(
+      this._key(fileId),
+      requireString(uploadId, "uploadId"),
+      parts.map(({ partNumber, etag }) => ({
+        partNumber: Number(partNumber),
+        etag: String(etag),
+      }))
+    );
+    return { fileId, savedPath, metadata };
+  }
+
+  public async abort({ fileId, uploadId }: AbortMultipartRequest) {
+    await this._store.abortMultipartUpload(
+      this._key(fileId),
+      requireString(uploadId, "uploadId")
+    );
+  }
+
+  // fileId 直接作为 key 的一部分，只允许字母、数字、"_"、"-" 与 "."
+  private _key(fileId: string): string {
+    if (!/^[\w.-]+$/.test(requireString(fileId, "fileId"))) {
+      throw new ObjectStoreError("InvalidRequest", "Invalid fileId");
+    }
+    return `${this._keyPrefix}${fileId}`;
+  }
+}
+
+function requireString(value: unknown, name: string): string {
+  if (typeof value !== "string" || !value) {
+    throw new ObjectStoreError("InvalidRequest", `${name} required`);
+  }
+  return value;
+}
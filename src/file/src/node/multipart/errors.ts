@@ -0,0 +1,14 @@
+/**
+ * 分段上传的服务端错误，code 与 S3 的错误码一致（如 NoSuchUpload、BadDigest），status 为对应的 HTTP 状态码
+ */
+export class ObjectStoreError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.name = "ObjectStoreError";
+    this.code = code;
+    this.status = status;
+  }
+}
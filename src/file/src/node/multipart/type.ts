@@ -0,0 +1,70 @@
+import type { ChecksumAlgorithm } from "../../common/type";
+import type { MultipartPart, PresignedRequest } from "../../transport/type";
+
+// 由客户端计算、签入预签名 URL 的分片摘要
+export interface PartChecksum {
+  algorithm: ChecksumAlgorithm;
+  digest: string; // hex
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+/**
+ * 对象存储的分段上传接口
+ *
+ * S3 可基于 @aws-sdk/client-s3 与 @aws-sdk/s3-request-presigner 实现，测试与本地开发使用 MemoryObjectStore
+ */
+export interface ObjectStore {
+  // 返回 uploadId
+  createMultipartUpload(
+    key: string,
+    metadata: Record<string, string>
+  ): Promise<string>;
+  // 上传不存在（已完成、已中止或过期）时返回 null
+  listParts(key: string, uploadId: string): Promise<MultipartPart[] | null>;
+  // 不支持的摘要算法可以忽略 checksum
+  presignUploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    checksum?: PartChecksum
+  ): Promise<PresignedRequest>;
+  // 返回合并后对象的地址
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: CompletedPart[]
+  ): Promise<string>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+// 以下为 S3Transport 发送的请求体
+
+export interface CreateMultipartRequest {
+  fileId: string;
+  size: number;
+  metadata?: Record<string, any>;
+}
+
+export interface SignPartRequest {
+  fileId: string;
+  uploadId: string;
+  partNumber: number;
+  algorithm?: ChecksumAlgorithm;
+  checksum?: string; // 分片摘要（hex）
+}
+
+export interface CompleteMultipartRequest {
+  fileId: string;
+  uploadId: string;
+  parts: CompletedPart[];
+  metadata?: Record<string, any>;
+}
+
+export interface AbortMultipartRequest {
+  fileId: string;
+  uploadId: string;
+}
@@ -0,0 +1,218 @@
+import type { ChunkRange } from "../../common/type";
+import type { FileRecord, TusUpload, UploadStorage } from "./type";
+
+export interface FileUploadStorageOptions {
+  uploadDir?: string; // 分片目录，默认 "uploads"（相对于当前工作目录）
+  mergeDir?: string; // 合并后的文件目录，默认 "merged"
+}
+
+/**
+ * 本地文件系统存储
+ *
+ * 分片保存为 <uploadDir>/<fileId>/<offset>.part，合并后的文件为 <mergeDir>/<fileId>.bin 与记录 <fileId>.json，
+ * tus 上传保存在 <uploadDir>/.tus 下（fileId 不以 "." 开头，不会冲突）
+ */
+export class FileUploadStorage implements UploadStorage {
+  private _uploadDir: string;
+  private _mergeDir: string;
+
+  constructor({
+    uploadDir = "uploads",
+    mergeDir = "merged",
+  }: FileUploadStorageOptions = {}) {
+    this._uploadDir = uploadDir;
+    this._mergeDir = mergeDir;
+  }
+
+  public async listParts(fileId: string): Promise<ChunkRange[]> {
+    const [fsp, path] = await modules();
+    const dir = path.join(this._uploadDir, fileId);
+    let names: string[];
+    try {
+      names = await fsp.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    // 分片以 offset 命名，大小各不相同
+    const parts: ChunkRange[] = [];
+    for (const name of names.filter((name) => name.endsWith(".part"))) {
+      const { size } = await fsp.stat(path.join(dir, name));
+      parts.push({ offset: parseInt(name, 10), length: size });
+    }
+    return parts.sort((a, b) => a.offset - b.offset);
+  }
+
+  public async writePart(fileId: string, offset: number, data: Uint8Array) {
+    const [fsp, path] = await modules();
+    const dir = path.join(this._uploadDir, fileId);
+    await fsp.mkdir(dir, { recursive: true });
+    await fsp.writeFile(path.join(dir, `${offset}.part`), data);
+  }
+
+  public async readPart(
+    fileId: string,
+    offset: number
+  ): Promise<Uint8Array | null> {
+    const [fsp, path] = await modules();
+    try {
+      return await fsp.readFile(
+        path.join(this._uploadDir, fileId, `${offset}.part`)
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  public async deletePart(fileId: string, offset: number) {
+    const [fsp, path] = await modules();
+    await fsp.rm(path.join(this._uploadDir, fileId, `${offset}.part`), {
+      force: true,
+    });
+  }
+
+  public async deleteParts(fileId: string) {
+    const [fsp, path] = await modules();
+    await fsp.rm(path.join(this._uploadDir, fileId), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  // 逐个读取分片写入，内存中只保留一个分片
+  public async mergeParts(fileId: string, parts: ChunkRange[]) {
+    const [fsp, path] = await modules();
+    await fsp.mkdir(this._mergeDir, { recursive: true });
+    const output = await fsp.open(this._filePath(path, fileId), "w");
+    try {
+      for (const { offset } of parts) {
+        await output.write(
+          await fsp.readFile(
+            path.join(this._uploadDir, fileId, `${offset}.part`)
+          )
+        );
+      }
+    } finally {
+      await output.close();
+    }
+  }
+
+  public async readFile(
+    fileId: string
+  ): Promise<AsyncIterable<Uint8Array> | null> {
+    const [fsp, path] = await modules();
+    const filePath = this._filePath(path, fileId);
+    try {
+      await fsp.access(filePath);
+    } catch {
+      return null;
+    }
+    const { createReadStream } = await import("node:fs");
+    return createReadStream(filePath);
+  }
+
+  public async deleteFile(fileId: string) {
+    const [fsp, path] = await modules();
+    await fsp.rm(this._filePath(path, fileId), { force: true });
+    await fsp.rm(this._recordPath(path, fileId), { force: true });
+  }
+
+  public async getFileRecord(fileId: string): Promise<FileRecord | null> {
+    const [fsp, path] = await modules();
+    try {
+      const record: FileRecord = JSON.parse(
+        await fsp.readFile(this._recordPath(path, fileId), "utf8")
+      );
+      const { size } = await fsp.stat(this._filePath(path, fileId));
+      return size === record.size ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  public async setFileRecord(record: FileRecord) {
+    const [fsp, path] = await modules();
+    await fsp.writeFile(
+      this._recordPath(path, record.fileId),
+      JSON.stringify(record)
+    );
+  }
+
+  public async createTusUpload(
+    id: string,
+    length: number,
+    metadata: Record<string, string>
+  ) {
+    const [fsp, path] = await modules();
+    const dir = path.join(this._uploadDir, ".tus");
+    await fsp.mkdir(dir, { recursive: true });
+    await fsp.writeFile(path.join(dir, `${id}.bin`), "");
+    await fsp.writeFile(
+      path.join(dir, `${id}.json`),
+      JSON.stringify({ length, metadata })
+    );
+  }
+
+  public async getTusUpload(id: string): Promise<TusUpload | null> {
+    const [fsp, path] = await modules();
+    const dir = path.join(this._uploadDir, ".tus");
+    try {
+      const { length, metadata, fileId } = JSON.parse(
+        await fsp.readFile(path.join(dir, `${id}.json`), "utf8")
+      );
+      // 完成后数据已移动到 mergeDir
+      if (fileId) return { length, metadata, offset: length, fileId };
+      const { size } = await fsp.stat(path.join(dir, `${id}.bin`));
+      return { length, metadata, offset: size };
+    } catch {
+      return null;
+    }
+  }
+
+  public async appendTusUpload(id: string, data: Uint8Array) {
+    const [fsp, path] = await modules();
+    await fsp.appendFile(path.join(this._uploadDir, ".tus", `${id}.bin`), data);
+  }
+
+  public async completeTusUpload(id: string, fileId: string) {
+    const [fsp, path] = await modules();
+    const dir = path.join(this._uploadDir, ".tus");
+    const upload = JSON.parse(
+      await fsp.readFile(path.join(dir, `${id}.json`), "utf8")
+    );
+    await fsp.mkdir(this._mergeDir, { recursive: true });
+    const source = path.join(dir, `${id}.bin`);
+    const target = this._filePath(path, fileId);
+    try {
+      await fsp.rename(source, target);
+    } catch {
+      // uploadDir 与 mergeDir 不在同一个文件系统时不能 rename
+      await fsp.copyFile(source, target);
+      await fsp.rm(source, { force: true });
+    }
+    await fsp.writeFile(
+      path.join(dir, `${id}.json`),
+      JSON.stringify({ ...upload, fileId })
+    );
+  }
+
+  public async deleteTusUpload(id: string) {
+    const [fsp, path] = await modules();
+    const dir = path.join(this._uploadDir, ".tus");
+    await fsp.rm(path.join(dir, `${id}.bin`), { force: true });
+    await fsp.rm(path.join(dir, `${id}.json`), { force: true });
+  }
+
+  private _filePath(path: typeof import("node:path"), fileId: string) {
+    return path.join(this._mergeDir, `${fileId}.bin`);
+  }
+
+  private _recordPath(path: typeof import("node:path"), fileId: string) {
+    return path.join(this._mergeDir, `${fileId}.json`);
+  }
+}
+
+// 动态引入，避免浏览器端打包时解析 node 内置模块
+function modules() {
+  return Promise.all([import("node:fs/promises"), import("node:path")]);
+}
@@ -0,0 +1,135 @@
+import type { ChunkRange } from "../../common/type";
+import type { FileRecord, TusUpload, UploadStorage } from "./type";
+
+type MemoryFile = { data: Uint8Array; record: FileRecord | null };
+
+type MemoryTusUpload = {
+  length: number;
+  metadata: Record<string, string>;
+  chunks: Uint8Array[];
+  offset: number;
+  fileId?: string;
+};
+
+/**
+ * 内存中的存储后端，用于测试
+ */
+export class MemoryUploadStorage implements UploadStorage {
+  private _parts = new Map<string, Map<number, Uint8Array>>(); // fileId -> (offset -> 分片)
+  private _files = new Map<string, MemoryFile>();
+  private _tusUploads = new Map<string, MemoryTusUpload>();
+
+  public async listParts(fileId: string): Promise<ChunkRange[]> {
+    return [...(this._parts.get(fileId) ?? [])]
+      .sort(([a], [b]) => a - b)
+      .map(([offset, data]) => ({ offset, length: data.length }));
+  }
+
+  public async writePart(fileId: string, offset: number, data: Uint8Array) {
+    let parts = this._parts.get(fileId);
+    if (!parts) {
+      parts = new Map();
+      this._parts.set(fileId, parts);
+    }
+    parts.set(offset, new Uint8Array(data));
+  }
+
+  public async readPart(
+    fileId: string,
+    offset: number
+  ): Promise<Uint8Array | null> {
+    return this._parts.get(fileId)?.get(offset) ?? null;
+  }
+
+  public async deletePart(fileId: string, offset: number) {
+    this._parts.get(fileId)?.delete(offset);
+  }
+
+  public async deleteParts(fileId: string) {
+    this._parts.delete(fileId);
+  }
+
+  public async mergeParts(fileId: string, parts: ChunkRange[]) {
+    const chunks = parts.map(
+      ({ offset }) => this._parts.get(fileId)?.get(offset) ?? new Uint8Array()
+    );
+    this._files.set(fileId, { data: concat(chunks), record: null });
+  }
+
+  public async readFile(
+    fileId: string
+  ): Promise<AsyncIterable<Uint8Array> | null> {
+    const file = this._files.get(fileId);
+    if (!file) return null;
+    return (async function* () {
+      yield file.data;
+    })();
+  }
+
+  public async deleteFile(fileId: string) {
+    this._files.delete(fileId);
+  }
+
+  public async getFileRecord(fileId: string): Promise<FileRecord | null> {
+    const file = this._files.get(fileId);
+    if (!file?.record || file.record.size !== file.data.length) return null;
+    return file.record;
+  }
+
+  public async setFileRecord(record: FileRecord) {
+    const file = this._files.get(record.fileId);
+    if (file) file.record = record;
+  }
+
+  public async createTusUpload(
+    id: string,
+    length: number,
+    metadata: Record<string, string>
+  ) {
+    this._tusUploads.set(id, { length, metadata, chunks: [], offset: 0 });
+  }
+
+  public async getTusUpload(id: string): Promise<TusUpload | null> {
+    const upload = this._tusUploads.get(id);
+    if (!upload) return null;
+    const { length, metadata, offset, fileId } = upload;
+    return { length, metadata, offset, fileId };
+  }
+
+  public async appendTusUpload(id: string, data: Uint8Array) {
+    const upload = this._tusUploads.get(id);
+    if (!upload) return;
+    upload.chunks.push(new Uint8Array(data));
+    upload.offset += data.length;
+  }
+
+  public async completeTusUpload(id: string, fileId: string) {
+    const upload = this._tusUploads.get(id);
+    if (!upload) return;
+    this._files.set(fileId, { data: concat(upload.chunks), record: null });
+    upload.chunks = [];
+    upload.fileId = fileId;
+  }
+
+  public async deleteTusUpload(id: string) {
+    this._tusUploads.delete(id);
+  }
+
+  // tus 上传已接收（且尚未完成）的数据，不存在时返回 null
+  public getTusData(id: string): Uint8Array | null {
+    const upload = this._tusUploads.get(id);
+    return upload ? concat(upload.chunks) : null;
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(
+    chunks.reduce((size, chunk) => size + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
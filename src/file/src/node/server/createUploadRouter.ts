@@ -0,0 +1,574 @@
+import express, { type Request, type Response, type Router } from "express";
+import type { ChunkRange } from "../../common/type";
+import { ObjectStoreError } from "../multipart/errors";
+import { MemoryObjectStore } from "../multipart/MemoryObjectStore";
+import { MultipartService } from "../multipart/MultipartService";
+import { FileUploadStorage } from "./FileUploadStorage";
+import type { TusUpload, UploadRouterOptions, UploadStorage } from "./type";
+
+const TUS_VERSION = "1.0.0";
+// Upload-Checksum 的算法名即 node:crypto 的算法名
+const TUS_CHECKSUMS = ["sha1", "sha256", "sha384", "sha512"];
+// 内置协议的摘要算法（客户端 checksum 选项）
+const CHECKSUMS = ["SHA-1", "SHA-256", "SHA-384", "SHA-512"];
+
+/**
+ * 创建上传路由，可挂载到已有的 express 应用中
+ *
+ * 提供内置协议（/status、/upload、/merge、/discard）、合并后文件的下载（/merged/<fileId>.bin）、
+ * tus 1.0（/tus）以及配置 objectStore 后的 S3 分段上传（/multipart/*），所有路由都在 basePath 之下。
+ * 请求体解析只作用于这些路由，不影响应用的其他路由
+ */
+export function createUploadRouter({
+  basePath = "",
+  bodyLimit = "50mb",
+  storage = new FileUploadStorage(),
+  objectStore,
+}: UploadRouterOptions = {}): Router {
+  const base = basePath.replace(/\/+$/, "");
+  const router = express.Router();
+  const json = express.json({ limit: bodyLimit });
+  // 浏览器端直接发送 Blob，分片请求可能没有 Content-Type，因此接受任意类型（tus 的 PATCH 另行检查）
+  const raw = express.raw({ type: () => true, limit: bodyLimit });
+
+  // 查询已上传分片；已有内容相同（sha256 一致）的合并好的文件时返回 file，客户端直接秒传
+  router.get(`${base}/status`, async (req, res) => {
+    const fileId = toId(req.query.fileId);
+    if (!fileId) return res.status(400).json({ error: "fileId required" });
+
+    // fileId 可能只是采样 hash，只凭 fileId 不能确认内容相同
+    const sha256 = req.query.sha256;
+    const record = await storage.getFileRecord(fileId);
+    if (record && typeof sha256 === "string" && record.sha256 === sha256) {
+      const { fileId: _, savedPath, metadata } = record;
+      return res.json({ parts: [], file: { fileId, savedPath, metadata } });
+    }
+    res.json({ parts: await storage.listParts(fileId) });
+  });
+
+  // 上传分片
+  router.post(`${base}/upload`, raw, async (req, res) => {
+    const fileId = toId(req.query.fileId);
+    const offset = toInteger(req.query.offset);
+    const length = toInteger(req.query.length);
+
+    if (!fileId || offset == null || !length) {
+      return res
+        .status(400)
+        .json({ error: "fileId, offset & length required" });
+    }
+
+    // 请求体被截断时拒绝该分片，客户端会重新上传
+    const data = toBuffer(req.body);
+    if (data.length !== length) {
+      return res
+        .status(422)
+        .json({ success: false, error: "Chunk length mismatch", offset });
+    }
+
+    // 摘要不一致时拒绝该分片，客户端会重新上传
+    const checksum = req.get("X-Chunk-Checksum");
+    if (checksum) {
+      const algorithm = req.get("X-Checksum-Algorithm") ?? "SHA-256";
+      if (!CHECKSUMS.includes(algorithm)) {
+        return res
+          .status(400)
+          .json({ error: "Unsupported checksum algorithm" });
+      }
+      if ((await digestHex(algorithm, data)) !== checksum) {
+        return res
+          .status(422)
+          .json({ success: false, error: "Checksum mismatch", offset });
+      }
+    }
+
+    await storage.writePart(fileId, offset, data);
+    res.json({ success: true });
+  });
+
+  // 合并分片：parts 为客户端确认的分片列表，按 offset 首尾相连覆盖整个文件
+  router.post(`${base}/merge`, json, async (req, res) => {
+    const { size, parts, metadata, algorithm, partsDigest, sha256 } =
+      req.body ?? {};
+    const fileId = toId(req.body?.fileId);
+    if (!fileId || !Array.isArray(parts)) {
+      return res.status(400).json({ error: "fileId & parts required" });
+    }
+    // 带有摘要时必须指定服务端支持的算法
+    const digested =
+      partsDigest || parts.some((part: { digest?: string }) => part.digest);
+    if (digested && !CHECKSUMS.includes(algorithm)) {
+      return res.status(400).json({ error: "Unsupported checksum algorithm" });
+    }
+
+    const stored = new Set(
+      (await storage.listParts(fileId)).map(({ offset }) => offset)
+    );
+    // 空文件没有分片，合并为空文件
+    if (stored.size === 0 && size !== 0) {
+      return res.status(400).json({ error: "No uploaded chunks found" });
+    }
+
+    let expected = 0;
+    for (const { offset, length } of parts as ChunkRange[]) {
+      if (offset !== expected) {
+        return res.status(400).json({ error: `Missing range at ${expected}` });
+      }
+      if (!stored.has(offset)) {
+        return res.status(400).json({ error: `Missing chunk at ${offset}` });
+      }
+      expected += length;
+    }
+    if (size != null && expected !== size) {
+      return res.status(400).json({ error: `Missing range at ${expected}` });
+    }
+
+    // 合并前逐个校验分片（大小与摘要），删除损坏的分片并让客户端只重传这些分片
+    const corrupted: number[] = [];
+    for (const { offset, length, digest } of parts) {
+      const data = await storage.readPart(fileId, offset);
+      if (
+        !data ||
+        data.length !== length ||
+        (digest && (await digestHex(algorithm, data)) !== digest)
+      ) {
+        await storage.deletePart(fileId, offset);
+        corrupted.push(offset);
+      }
+    }
+    if (corrupted.length > 0) {
+      return res
+        .status(422)
+        .json({ success: false, error: "Checksum mismatch", corrupted });
+    }
+
+    await storage.mergeParts(fileId, parts);
+
+    // 计算合并后文件内容的 sha256，客户端提供了 sha256 时必须一致
+    const digest = await fileSha256(storage, fileId);
+    if (sha256 && digest !== sha256) {
+      await storage.deleteFile(fileId);
+      return res.status(422).json({
+        success: false,
+        error: "File digest mismatch",
+        corrupted: [],
+      });
+    }
+
+    // 读取合并后的文件，按分片大小重新计算各分片摘要，再计算组合摘要
+    const sizes: number[] = parts.map(({ length }: ChunkRange) => length);
+    if (partsDigest) {
+      const file = await storage.readFile(fileId);
+      const digests = file ? await digestParts(algorithm, file, sizes) : [];
+      if ((await digestHex(algorithm, digests.join(""))) !== partsDigest) {
+        await storage.deleteFile(fileId);
+        return res.status(422).json({
+          success: false,
+          error: "File checksum mismatch",
+          corrupted: [],
+        });
+      }
+    }
+
+    // 清理分片
+    await storage.deleteParts(fileId);
+    const savedPath = mergedPath(req, base, fileId);
+    await storage.setFileRecord({
+      fileId,
+      savedPath,
+      metadata,
+      size: expected,
+      sha256: digest,
+      algorithm,
+      partsDigest,
+    });
+    res.json({ success: true, fileId, metadata, savedPath });
+  });
+
+  // 取消上传，删除已上传的分片
+  router.post(`${base}/discard`, json, async (req, res) => {
+    const fileId = toId(req.body?.fileId);
+    if (!fileId) return res.status(400).json({ error: "fileId required" });
+
+    await storage.deleteParts(fileId);
+    res.json({ success: true });
+  });
+
+  // 下载合并后的文件
+  router.get(`${base}/merged/:name`, async (req, res) => {
+    const fileId = toId(req.params.name.replace(/\.bin$/, ""));
+    const record = fileId && (await storage.getFileRecord(fileId));
+    const file = record && (await storage.readFile(record.fileId));
+    if (!record || !file) return res.status(404).end();
+
+    const { Readable } = await import("node:stream");
+    res.set({
+      "Content-Type": "application/octet-stream",
+      "Content-Length": String(record.size),
+    });
+    Readable.from(file).pipe(res);
+  });
+
+  mountTus(router, base, storage, raw);
+  if (objectStore) {
+    mountMultipart(router, base, new MultipartService({ store: objectStore }));
+    // MemoryObjectStore 的 baseUrl 应为 <服务地址><basePath>/object-store
+    if (objectStore instanceof MemoryObjectStore) {
+      mountObjectStore(router, `${base}/object-store`, objectStore, bodyLimit);
+    }
+  }
+
+  return router;
+}
+
+// tus 1.0（客户端 protocol: "tus"，endpoint 为 <basePath>/tus）
+function mountTus(
+  router: Router,
+  base: string,
+  storage: UploadStorage,
+  raw: express.RequestHandler
+) {
+  const path = `${base}/tus`;
+
+  // 同一上传的 PATCH 串行处理，避免并发请求在同一个 offset 上重复追加
+  const locks = new Map<string, Promise<void>>();
+  const withLock = async (id: string, handler: () => Promise<unknown>) => {
+    const previous = locks.get(id) ?? Promise.resolve();
+    const current = previous.then(handler).then(() => {});
+    const settled = current.catch(() => {});
+    locks.set(id, settled);
+    try {
+      await current;
+    } finally {
+      if (locks.get(id) === settled) locks.delete(id);
+    }
+  };
+
+  // 上传完成：数据移动为合并后的文件并写入文件记录，与 /merge 合并的文件一样可以下载与秒传
+  // fileId 取自 Upload-Metadata，缺失、不合法或已有同名文件时使用上传 id，不覆盖已完成的文件
+  const complete = async (req: Request, id: string, upload: TusUpload) => {
+    const { fileId: requested, ...metadata } = upload.metadata;
+    const named = toId(requested);
+    const fileId = named && !(await storage.getFileRecord(named)) ? named : id;
+    await storage.completeTusUpload(id, fileId);
+    const savedPath = mergedPath(req, base, fileId);
+    await storage.setFileRecord({
+      fileId,
+      savedPath,
+      metadata,
+      size: upload.length,
+      sha256: await fileSha256(storage, fileId),
+    });
+    return savedPath;
+  };
+  // 所有响应都带 Tus-Resumable；除 OPTIONS 外，请求的 Tus-Resumable 必须是服务端支持的版本
+  router.use(path, (req, res, next) => {
+    res.set("Tus-Resumable", TUS_VERSION);
+    res.set(
+      "Access-Control-Expose-Headers",
+      "Location, Upload-Offset, Upload-Length, Upload-Saved-Path, Tus-Resumable"
+    );
+    if (req.method !== "OPTIONS" && req.get("Tus-Resumable") !== TUS_VERSION) {
+      return res.set("Tus-Version", TUS_VERSION).status(412).end();
+    }
+    next();
+  });
+
+  // 服务端支持的版本与扩展
+  router.options(path, (_req, res) => {
+    res
+      .set({
+        "Tus-Version": TUS_VERSION,
+        "Tus-Extension": "creation,termination,checksum",
+        "Tus-Checksum-Algorithm": TUS_CHECKSUMS.join(","),
+      })
+      .status(204)
+      .end();
+  });
+
+  // creation：创建上传，返回上传地址
+  router.post(path, async (req, res) => {
+    const length = Number(req.get("Upload-Length"));
+    if (!Number.isInteger(length) || length < 0) {
+      return res.status(400).send("Upload-Length required");
+    }
+
+    const id = crypto.randomUUID();
+    const metadata = parseTusMetadata(req.get("Upload-Metadata"));
+    await storage.createTusUpload(id, length, metadata);
+    // 空文件不会有 PATCH，创建时即完成
+    if (length === 0) {
+      const savedPath = await complete(req, id, {
+        length,
+        metadata,
+        offset: 0,
+      });
+      res.set("Upload-Saved-Path", savedPath);
+    }
+    res.set("Location", `${req.baseUrl}${path}/${id}`).status(201).end();
+  });
+
+  // 查询已接收的字节数，客户端从该 offset 续传
+  router.head(`${path}/:id`, async (req, res) => {
+    const id = toId(req.params.id);
+    const upload = id && (await storage.getTusUpload(id));
+    res.set("Cache-Control", "no-store");
+    if (!upload) return res.status(404).end();
+
+    // 已完成的上传同时返回合并后文件的地址
+    const record =
+      upload.fileId && (await storage.getFileRecord(upload.fileId));
+    if (record) res.set("Upload-Saved-Path", record.savedPath);
+    res
+      .set({
+        "Upload-Offset": String(upload.offset),
+        "Upload-Length": String(upload.length),
+      })
+      .status(200)
+      .end();
+  });
+
+  // 按 offset 追加数据
+  router.patch(`${path}/:id`, raw, async (req, res) => {
+    if (req.get("Content-Type") !== "application/offset+octet-stream") {
+      return res.status(415).end();
+    }
+    const id = toId(req.params.id);
+    if (!id) return res.status(404).end();
+
+    await withLock(id, async () => {
+      const upload = await storage.getTusUpload(id);
+      if (!upload) return res.status(404).end();
+
+      // offset 与已接收的字节数不一致时拒绝，客户端 HEAD 后从正确的位置续传
+      const offset = Number(req.get("Upload-Offset"));
+      if (offset !== upload.offset) return res.status(409).end();
+
+      const data = toBuffer(req.body);
+      if (offset + data.length > upload.length) {
+        return res.status(400).send("Upload-Length exceeded");
+      }
+
+      // checksum：Upload-Checksum 为 "算法 base64(摘要)"，不一致时以 460 拒绝，数据不写入
+      const checksum = req.get("Upload-Checksum");
+      if (checksum) {
+        const [algorithm, expected] = checksum.split(" ");
+        if (!TUS_CHECKSUMS.includes(algorithm)) {
+          return res.status(400).send("Unsupported checksum algorithm");
+        }
+        const { createHash } = await import("node:crypto");
+        const actual = createHash(algorithm).update(data).digest("base64");
+        if (actual !== expected) {
+          return res.status(460).send("Checksum mismatch");
+        }
+      }
+
+      await storage.appendTusUpload(id, data);
+      // 最后一个 PATCH 完成上传，响应中带上合并后文件的地址
+      if (!upload.fileId && offset + data.length === upload.length) {
+        res.set("Upload-Saved-Path", await complete(req, id, upload));
+      }
+      res
+        .set("Upload-Offset", String(offset + data.length))
+        .status(204)
+        .end();
+    });
+  });
+
+  // termination：删除上传
+  router.delete(`${path}/:id`, async (req, res) => {
+    const id = toId(req.params.id);
+    if (!id || !(await storage.getTusUpload(id))) {
+      return res.status(404).end();
+    }
+
+    await storage.deleteTusUpload(id);
+    res.status(204).end();
+  });
+}
+
+// S3 分段上传（客户端 protocol: "s3"），分片数据不经过服务端
+function mountMultipart(
+  router: Router,
+  base: string,
+  multipart: MultipartService
+) {
+  const json = express.json();
+
+  // ObjectStoreError 按其状态码返回，其余错误交给 express 处理
+  const route =
+    (handler: (req: Request) => Promise<any>) =>
+    async (req: Request, res: Response) => {
+      try {
+        res.json(await handler(req));
+      } catch (err) {
+        if (!(err instanceof ObjectStoreError)) throw err;
+        res.status(err.status).json({ error: err.message, code: err.code });
+      }
+    };
+
+  router.post(
+    `${base}/multipart/create`,
+    json,
+    route((req) => multipart.create(req.body ?? {}))
+  );
+
+  // 查询对象存储中已上传的分片，上传不存在时返回 404
+  router.get(
+    `${base}/multipart/parts`,
+    route(async (req) => {
+      const result = await multipart.listParts(
+        String(req.query.fileId ?? ""),
+        String(req.query.uploadId ?? "")
+      );
+      if (!result) {
+        throw new ObjectStoreError(
+          "NoSuchUpload",
+          "The specified multipart upload does not exist",
+          404
+        );
+      }
+      return result;
+    })
+  );
+
+  // 为单个分片签发预签名 URL
+  router.post(
+    `${base}/multipart/sign`,
+    json,
+    route((req) => multipart.sign(req.body ?? {}))
+  );
+
+  router.post(
+    `${base}/multipart/complete`,
+    json,
+    route((req) => multipart.complete(req.body ?? {}))
+  );
+
+  router.post(
+    `${base}/multipart/abort`,
+    json,
+    route(async (req) => {
+      await multipart.abort(req.body ?? {});
+      return { success: true };
+    })
+  );
+}
+
+// MemoryObjectStore 的预签名 PUT，错误以 S3 的 XML 格式返回
+function mountObjectStore(
+  router: Router,
+  path: string,
+  store: MemoryObjectStore,
+  bodyLimit: number | string
+) {
+  router.put(
+    `${path}/:key`,
+    express.raw({ type: () => true, limit: bodyLimit }),
+    async (req, res) => {
+      res.set("Access-Control-Expose-Headers", "ETag");
+      try {
+        const etag = await store.putPart(
+          req.originalUrl,
+          req.headers as Record<string, string>,
+          toBuffer(req.body)
+        );
+        res.set("ETag", etag).status(200).end();
+      } catch (err) {
+        if (!(err instanceof ObjectStoreError)) throw err;
+        res
+          .status(err.status)
+          .type("application/xml")
+          .send(
+            `<Error><Code>${err.code}</Code><Message>${err.message}</Message></Error>`
+          );
+      }
+    }
+  );
+}
+
+// fileId 与 tus 上传 id 会作为路径的一部分，只允许字母、数字、"_"、"-" 与 "."，且不能以 "." 开头
+function toId(value: unknown): string | null {
+  return typeof value === "string" && /^[\w-][\w.-]*$/.test(value)
+    ? value
+    : null;
+}
+
+// 非负整数的查询参数，其余（包括空字符串、负数与小数）返回 null
+function toInteger(value: unknown): number | null {
+  return typeof value === "string" && /^\d+$/.test(value)
+    ? Number(value)
+    : null;
+}
+
+// 没有请求体或 Content-Type 不匹配时 body 不是 Buffer
+function toBuffer(body: unknown): Buffer {
+  return Buffer.isBuffer(body) ? body : Buffer.alloc(0);
+}
+
+// Upload-Metadata："key base64(value),..."
+function parseTusMetadata(header = "") {
+  const metadata: Record<string, string> = {};
+  for (const pair of header.split(",")) {
+    const [key, value = ""] = pair.trim().split(" ");
+    if (key) metadata[key] = Buffer.from(value, "base64").toString("utf8");
+  }
+  return metadata;
+}
+
+// 合并后文件的下载地址；路由可能挂载在前缀之下（app.use("/api", router)），带上 req.baseUrl
+function mergedPath(req: Request, base: string, fileId: string): string {
+  return `${req.baseUrl}${base}/merged/${fileId}.bin`;
+}
+
+// 客户端算法名（SHA-256）转为 node:crypto 的算法名（sha256）
+async function digestHex(
+  algorithm: string,
+  data: string | Uint8Array
+): Promise<string> {
+  const { createHash } = await import("node:crypto");
+  return createHash(algorithm.replace("-", "").toLowerCase())
+    .update(data)
+    .digest("hex");
+}
+
+// 合并后文件内容的 SHA-256（hex），写入文件记录用于秒传
+async function fileSha256(
+  storage: UploadStorage,
+  fileId: string
+): Promise<string> {
+  const file = await storage.readFile(fileId);
+  if (!file) throw new Error(`Merged file "${fileId}" not found`);
+  const { createHash } = await import("node:crypto");
+  const hash = createHash("sha256");
+  for await (const data of file) hash.update(data);
+  return hash.digest("hex");
+}
+
+// 按分片大小切分合并后的文件，依次计算每个分片的摘要
+async function digestParts(
+  algorithm: string,
+  file: AsyncIterable<Uint8Array>,
+  sizes: number[]
+): Promise<string[]> {
+  const { createHash } = await import("node:crypto");
+  const name = algorithm.replace("-", "").toLowerCase();
+  const digests: string[] = [];
+  let hash = createHash(name);
+  let remaining = sizes[0];
+
+  for await (let data of file) {
+    while (data.length > 0 && digests.length < sizes.length) {
+      const piece = data.subarray(0, remaining);
+      hash.update(piece);
+      remaining -= piece.length;
+      data = data.subarray(piece.length);
+      if (remaining === 0) {
+        digests.push(hash.digest("hex"));
+        hash = createHash(name);
+        remaining = sizes[digests.length];
+      }
+    }
+  }
+  return digests;
+}
@@ -0,0 +1,27 @@
+import type { Server } from "node:http";
+import express from "express";
+import { createUploadRouter } from "./createUploadRouter";
+import type { StartServerOptions } from "./type";
+
+/**
+ * 启动只包含上传路由的 express 服务，监听成功后返回 http.Server（通过 server.close() 关闭）
+ */
+export async function startServer({
+  port = 3000,
+  host,
+  ...options
+}: StartServerOptions = {}): Promise<Server> {
+  const app = express();
+  app.use(createUploadRouter(options));
+
+  const { createServer } = await import("node:http");
+  const server = createServer(app);
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen({ port, host }, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return server;
+}
@@ -0,0 +1,66 @@
+import type { ChunkRange } from "../../common/type";
+import type { ObjectStore } from "../multipart/type";
+
+// 合并完成的文件记录，用于秒传与下载
+export interface FileRecord {
+  fileId: string;
+  savedPath: string;
+  metadata: Record<string, any>;
+  size: number;
+  sha256: string; // 合并后文件内容的 SHA-256（hex，由服务端计算），秒传时与客户端的 sha256 比较
+  algorithm?: string;
+  partsDigest?: string; // 组合摘要：分片摘要依次拼接后再计算的摘要
+}
+
+// tus 上传
+export interface TusUpload {
+  length: number; // Upload-Length
+  metadata: Record<string, string>;
+  offset: number; // 已接收的字节数
+  fileId?: string; // 上传完成后，数据已移动为该 fileId 的合并后文件
+}
+
+/**
+ * 上传路由的存储后端：内置协议的分片与合并后的文件，以及 tus 上传
+ *
+ * fileId 与 tus 上传 id 已由路由校验，只包含字母、数字、"_"、"-" 与 "."，且不以 "." 开头
+ */
+export interface UploadStorage {
+  // 分片以 fileId 与 offset 标识
+  listParts(fileId: string): Promise<ChunkRange[]>;
+  writePart(fileId: string, offset: number, data: Uint8Array): Promise<void>;
+  readPart(fileId: string, offset: number): Promise<Uint8Array | null>;
+  deletePart(fileId: string, offset: number): Promise<void>;
+  deleteParts(fileId: string): Promise<void>; // 删除 fileId 的所有分片
+
+  // 按顺序拼接分片写入合并后的文件，分片由路由在校验通过后删除
+  mergeParts(fileId: string, parts: ChunkRange[]): Promise<void>;
+  readFile(fileId: string): Promise<AsyncIterable<Uint8Array> | null>;
+  deleteFile(fileId: string): Promise<void>; // 同时删除文件记录
+  // 合并后的文件不存在或大小与记录不符（被替换或截断）时返回 null
+  getFileRecord(fileId: string): Promise<FileRecord | null>;
+  setFileRecord(record: FileRecord): Promise<void>;
+
+  createTusUpload(
+    id: string,
+    length: number,
+    metadata: Record<string, string>
+  ): Promise<void>;
+  getTusUpload(id: string): Promise<TusUpload | null>;
+  appendTusUpload(id: string, data: Uint8Array): Promise<void>;
+  // 上传完成：把数据移动为 fileId 的合并后文件（覆盖已有文件），保留上传记录供 HEAD 查询
+  completeTusUpload(id: string, fileId: string): Promise<void>;
+  deleteTusUpload(id: string): Promise<void>; // 完成后删除只删除上传记录
+}
+
+export interface UploadRouterOptions {
+  basePath?: string; // 路由前缀，如 "/api/upload"，默认为空
+  bodyLimit?: number | string; // 分片与 JSON 请求体的大小限制，默认 "50mb"
+  storage?: UploadStorage; // 默认为 FileUploadStorage（./uploads 与 ./merged）
+  objectStore?: ObjectStore; // 配置后提供 S3 分段上传接口（客户端 protocol: "s3"）
+}
+
+export interface StartServerOptions extends UploadRouterOptions {
+  port?: number; // 默认 3000，0 表示随机端口
+  host?: string;
+}
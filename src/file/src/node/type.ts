@@ -0,0 +1,37 @@
+import type { Readable } from "node:stream";
+import type {
+  ChecksumAlgorithm,
+  Requester,
+  UploadOptions,
+} from "../common/type";
+import type { SessionStore } from "../session/type";
+import type { UploadProtocol } from "../transport/type";
+
+export interface NodeInitOptions {
+  endpoint: string; // 绝对地址，如 http://localhost:3000
+  chunkSize?: number;
+  concurrency?: number; // 所有文件共享的分片并发数
+  retry?: number;
+  timeout?: number;
+  header?: Record<string, string>;
+  computeHash?: ((path: string) => Promise<string>) | null; // 默认为整个文件的 SHA-256 加文件大小
+  metadata?: Record<string, any>;
+  checksum?: ChecksumAlgorithm | null; // 分片与整体校验的摘要算法，null 表示不校验
+  requester?: Requester; // 自定义网络请求实现（默认基于 node:http）
+  protocol?: UploadProtocol; // 上传协议，默认为内置协议；"tus"、"s3" 需要 requester 实现 request()
+  tmpDir?: string; // 缓存 Readable 的临时目录（默认 os.tmpdir()）
+  sessionStore?: SessionStore | null; // 持久化未完成的上传会话，如 FileSessionStore
+  sessionTTL?: number; // 会话过期时间（ms），默认 7 天
+}
+
+// 文件路径，或需要先缓存到临时文件的 Readable
+export type NodeUploadSource = string | Readable;
+
+export interface NodeUploadOptions extends UploadOptions {
+  signal?: AbortSignal; // 取消上传
+}
+
+export interface NodeChunk {
+  start: number;
+  end: number;
+}
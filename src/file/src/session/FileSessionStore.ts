@@ -0,0 +1,65 @@
+import type { SessionStore, UploadSession } from "./type";
+
+/**
+ * 以 JSON 文件保存所有会话（Node.js）
+ *
+ * 会话在内存中维护，每次变更后整体写入；写入串行进行，并先写临时文件再重命名
+ */
+export class FileSessionStore implements SessionStore {
+  private _path: string;
+  private _sessions: Promise<Map<string, UploadSession>> | null = null;
+  private _writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  public async get(fileId: string): Promise<UploadSession | null> {
+    return (await this._load()).get(fileId) ?? null;
+  }
+
+  public async set(session: UploadSession) {
+    const sessions = await this._load();
+    sessions.set(session.fileId, session);
+    await this._write(sessions);
+  }
+
+  public async delete(fileId: string) {
+    const sessions = await this._load();
+    if (sessions.delete(fileId)) await this._write(sessions);
+  }
+
+  public async list(): Promise<UploadSession[]> {
+    return [...(await this._load()).values()];
+  }
+
+  private _load(): Promise<Map<string, UploadSession>> {
+    this._sessions ??= (async () => {
+      // 动态引入，避免浏览器端打包时解析 node 内置模块
+      const { readFile } = await import("node:fs/promises");
+      try {
+        const sessions: UploadSession[] = JSON.parse(
+          await readFile(this._path, "utf8")
+        );
+        return new Map(sessions.map((session) => [session.fileId, session]));
+      } catch (err: any) {
+        if (err?.code === "ENOENT") return new Map();
+        throw err;
+      }
+    })();
+    return this._sessions;
+  }
+
+  private _write(sessions: Map<string, UploadSession>): Promise<void> {
+    const data = JSON.stringify([...sessions.values()]);
+    this._writing = this._writing
+      .catch(() => {})
+      .then(async () => {
+        const { rename, writeFile } = await import("node:fs/promises");
+        const temp = `${this._path}.tmp`;
+        await writeFile(temp, data, "utf8");
+        await rename(temp, this._path);
+      });
+    return this._writing;
+  }
+}
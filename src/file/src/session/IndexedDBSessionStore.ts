@@ -0,0 +1,55 @@
+import type { SessionStore, UploadSession } from "./type";
+
+const STORE_NAME = "sessions";
+
+// 将 IDBRequest 包装为 Promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 以 IndexedDB 保存会话（浏览器），会话以 fileId 为 key
+ */
+export class IndexedDBSessionStore implements SessionStore {
+  private _dbName: string;
+  private _db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = "big-uploader") {
+    this._dbName = dbName;
+  }
+
+  public async get(fileId: string): Promise<UploadSession | null> {
+    const store = await this._store("readonly");
+    return (await promisify(store.get(fileId))) ?? null;
+  }
+
+  public async set(session: UploadSession) {
+    const store = await this._store("readwrite");
+    await promisify(store.put(session, session.fileId));
+  }
+
+  public async delete(fileId: string) {
+    const store = await this._store("readwrite");
+    await promisify(store.delete(fileId));
+  }
+
+  public async list(): Promise<UploadSession[]> {
+    const store = await this._store("readonly");
+    return promisify(store.getAll());
+  }
+
+  private async _store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this._db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this._dbName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const db = await this._db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
@@ -0,0 +1,38 @@
+import type { SessionStore, UploadSession } from "./type";
+
+// 以 localStorage（或任意实现了 Storage 接口的对象）保存会话，每个会话一个 key
+export class LocalStorageSessionStore implements SessionStore {
+  private _prefix: string;
+  private _storage: Storage;
+
+  constructor(prefix = "big-uploader:", storage: Storage = localStorage) {
+    this._prefix = prefix;
+    this._storage = storage;
+  }
+
+  public async get(fileId: string): Promise<UploadSession | null> {
+    const raw = this._storage.getItem(this._prefix + fileId);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  public async set(session: UploadSession) {
+    this._storage.setItem(
+      this._prefix + session.fileId,
+      JSON.stringify(session)
+    );
+  }
+
+  public async delete(fileId: string) {
+    this._storage.removeItem(this._prefix + fileId);
+  }
+
+  public async list(): Promise<UploadSession[]> {
+    const sessions: UploadSession[] = [];
+    for (let i = 0; i < this._storage.length; i++) {
+      const key = this._storage.key(i);
+      if (!key?.startsWith(this._prefix)) continue;
+      sessions.push(JSON.parse(this._storage.getItem(key)!));
+    }
+    return sessions;
+  }
+}
@@ -0,0 +1,24 @@
+import type { SessionStore, UploadSession } from "./type";
+
+// 保存在内存中，主要用于测试
+export class MemorySessionStore implements SessionStore {
+  private _sessions: Map<string, UploadSession> = new Map();
+
+  public async get(fileId: string): Promise<UploadSession | null> {
+    return structuredClone(this._sessions.get(fileId)) ?? null;
+  }
+
+  public async set(session: UploadSession) {
+    this._sessions.set(session.fileId, structuredClone(session));
+  }
+
+  public async delete(fileId: string) {
+    this._sessions.delete(fileId);
+  }
+
+  public async list(): Promise<UploadSession[]> {
+    return [...this._sessions.values()].map((session) =>
+      structuredClone(session)
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import type { ChunkRange } from "../common/type";
+
+// 未完成的上传会话，所有字段都必须可 JSON 序列化
+export interface UploadSession {
+  fileId: string;
+  fileName?: string; // File 的名称，用于在页面刷新后提示用户重新选择文件
+  size: number;
+  lastModified?: number;
+  parts: ChunkRange[]; // 已上传的分片
+  metadata: Record<string, any>;
+  uploadId?: string; // 服务端上传会话 id（服务端在 /status 中返回时记录）
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 上传会话存储适配器
+ *
+ * set 会在每个分片上传完成后调用，实现应当整体覆盖同一 fileId 的旧会话
+ */
+export interface SessionStore {
+  get(fileId: string): Promise<UploadSession | null>;
+  set(session: UploadSession): Promise<void>;
+  delete(fileId: string): Promise<void>;
+  list(): Promise<UploadSession[]>;
+}
@@ -0,0 +1,114 @@
+import { HttpError, ProtocolError } from "../common/errors";
+import type {
+  ChecksumAlgorithm,
+  MergeResponse,
+  Requester,
+  UploadedChunks,
+} from "../common/type";
+import type {
+  CompleteRequest,
+  TransportChunk,
+  TransportFile,
+  TransportOptions,
+  UploadTransport,
+} from "./type";
+
+/**
+ * 内置协议：GET /status 查询已上传的分片，POST /upload 并发上传分片，POST /merge 合并
+ */
+export class DefaultTransport implements UploadTransport {
+  readonly sequential = false;
+  readonly fixedChunkSize = false;
+  readonly partDigests = true;
+
+  private _endpoint: string;
+  private _requester: Requester;
+  private _header: Record<string, string>;
+  private _checksum: ChecksumAlgorithm | null;
+
+  constructor({ endpoint, requester, header, checksum }: TransportOptions) {
+    this._endpoint = endpoint;
+    this._requester = requester;
+    this._header = header;
+    this._checksum = checksum;
+  }
+
+  async status(
+    file: TransportFile,
+    signal?: AbortSignal
+  ): Promise<UploadedChunks> {
+    // 只有带上文件内容的 sha256 时，服务端才会返回已合并的文件用于秒传
+    let url = `${this._endpoint}/status?fileId=${encodeURIComponent(
+      file.fileId
+    )}`;
+    if (file.sha256) url += `&sha256=${file.sha256}`;
+    const res = await this._requester.get<UploadedChunks>(url, signal);
+    if (!Array.isArray(res.parts)) {
+      throw new ProtocolError(url, "Incorrect response format");
+    }
+    return res;
+  }
+
+  async uploadChunk(
+    file: TransportFile,
+    chunk: TransportChunk,
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ) {
+    const url = `${this._endpoint}/upload?fileId=${encodeURIComponent(
+      file.fileId
+    )}&offset=${chunk.offset}&length=${chunk.length}`;
+    const headers = { ...this._header };
+    if (chunk.digest) {
+      headers["X-Chunk-Checksum"] = chunk.digest;
+      headers["X-Checksum-Algorithm"] = this._checksum!;
+    }
+
+    const response = await this._requester.uploadChunk(
+      url,
+      chunk.data,
+      headers,
+      signal,
+      onProgress
+    );
+    // 服务端校验摘要失败时拒绝该分片，按失败重试
+    if (response?.success === false) {
+      throw new Error(response.error ?? "Chunk rejected");
+    }
+  }
+
+  async complete(
+    file: TransportFile,
+    { parts, partsDigest }: CompleteRequest
+  ): Promise<MergeResponse> {
+    const { fileId, size, metadata, sha256 } = file;
+    const body: Record<string, any> = { fileId, size, parts, metadata };
+    if (sha256) body.sha256 = sha256;
+    if (partsDigest) {
+      body.algorithm = this._checksum;
+      body.partsDigest = partsDigest;
+    }
+
+    try {
+      return await this._requester.post<MergeResponse>(
+        `${this._endpoint}/merge`,
+        body,
+        this._header
+      );
+    } catch (error) {
+      // 校验失败时服务端以 422 返回 { success: false, corrupted }
+      if (error instanceof HttpError && error.body?.success === false) {
+        return error.body;
+      }
+      throw error;
+    }
+  }
+
+  async discard(file: TransportFile) {
+    await this._requester.post(
+      `${this._endpoint}/discard`,
+      { fileId: file.fileId },
+      this._header
+    );
+  }
+}
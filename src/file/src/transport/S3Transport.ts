@@ -0,0 +1,267 @@
+import { HttpError, ProtocolError } from "../common/errors";
+import type {
+  ChecksumAlgorithm,
+  ChunkRange,
+  MergeResponse,
+  RawResponse,
+  Requester,
+  UploadedChunks,
+} from "../common/type";
+import type {
+  CompleteRequest,
+  MultipartPart,
+  PresignedRequest,
+  TransportChunk,
+  TransportFile,
+  TransportOptions,
+  UploadTransport,
+} from "./type";
+
+// S3 单个分段上传最多 10000 个分片
+const MAX_PARTS = 10000;
+// 除最后一个分片外，S3 要求分片不小于 5MB，否则合并时返回 EntityTooSmall
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * S3 分段上传：服务端创建 multipart upload 并为每个分片签发预签名 URL，分片直接 PUT 到对象存储，
+ * 收集返回的 ETag 后由服务端完成合并（服务端接口见 node/multipart）
+ *
+ * 分片序号为 offset / chunkSize + 1，因此除最后一个分片外大小都是 chunkSize
+ */
+export class S3Transport implements UploadTransport {
+  readonly sequential = false;
+  readonly fixedChunkSize = true;
+  readonly partDigests = false;
+
+  private _endpoint: string;
+  private _requester: Requester;
+  private _header: Record<string, string>;
+  private _checksum: ChecksumAlgorithm | null;
+  private _chunkSize: number;
+
+  // uploadId -> (分片序号 -> ETag)，合并时提交
+  private _etags = new Map<string, Map<number, string>>();
+
+  constructor({
+    endpoint,
+    requester,
+    header,
+    checksum,
+    chunkSize,
+  }: TransportOptions) {
+    if (!requester.request) {
+      throw new Error("s3 requires a Requester that implements request()");
+    }
+    if (chunkSize < MIN_PART_SIZE) {
+      throw new Error(`s3 requires a chunkSize of at least ${MIN_PART_SIZE}`);
+    }
+    this._endpoint = endpoint;
+    this._requester = requester;
+    this._header = header;
+    this._checksum = checksum;
+    this._chunkSize = chunkSize;
+  }
+
+  async status(
+    file: TransportFile,
+    signal?: AbortSignal
+  ): Promise<UploadedChunks> {
+    const count = Math.ceil(file.size / this._chunkSize);
+    if (count > MAX_PARTS) {
+      throw new Error(
+        `File needs ${count} parts but S3 allows at most ${MAX_PARTS}, increase chunkSize`
+      );
+    }
+
+    if (file.uploadId) {
+      try {
+        return {
+          parts: await this._listParts(file, file.uploadId, signal),
+          uploadId: file.uploadId,
+        };
+      } catch (error) {
+        // 分段上传已过期或被中止时重新创建
+        if (!(error instanceof HttpError) || error.status !== 404) {
+          throw error;
+        }
+      }
+    }
+
+    const url = `${this._endpoint}/multipart/create`;
+    const { fileId, size, metadata } = file;
+    const res = await this._requester.post<{ uploadId: string }>(
+      url,
+      { fileId, size, metadata },
+      this._header,
+      signal
+    );
+    if (typeof res.uploadId !== "string") {
+      throw new ProtocolError(url, "Incorrect response format");
+    }
+    return { parts: [], uploadId: res.uploadId };
+  }
+
+  async uploadChunk(
+    file: TransportFile,
+    chunk: TransportChunk,
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ) {
+    const { fileId, uploadId } = file;
+    if (!uploadId) {
+      throw new ProtocolError(this._endpoint, "Upload has not been created");
+    }
+    if (
+      chunk.offset % this._chunkSize !== 0 ||
+      chunk.length !== this._partSize(file, chunk.offset)
+    ) {
+      throw new Error(
+        `Chunk at offset ${chunk.offset} does not match chunkSize ${this._chunkSize}`
+      );
+    }
+
+    // 摘要由服务端签入 URL，对象存储收到分片后校验
+    const partNumber = chunk.offset / this._chunkSize + 1;
+    const signUrl = `${this._endpoint}/multipart/sign`;
+    const body: Record<string, any> = { fileId, uploadId, partNumber };
+    if (chunk.digest) {
+      body.algorithm = this._checksum;
+      body.checksum = chunk.digest;
+    }
+    const presigned = await this._requester.post<PresignedRequest>(
+      signUrl,
+      body,
+      this._header,
+      signal
+    );
+    if (typeof presigned.url !== "string") {
+      throw new ProtocolError(signUrl, "Incorrect response format");
+    }
+
+    // 预签名 URL 自带鉴权，不发送 header 选项中的 token
+    let res: RawResponse;
+    try {
+      res = await this._requester.request!("PUT", presigned.url, {
+        headers: presigned.headers ?? {},
+        body: chunk.data,
+        signal,
+        onProgress,
+      });
+    } catch (error) {
+      // 摘要不一致（BadDigest）或 URL 已过期：重试时重新签发
+      if (
+        error instanceof HttpError &&
+        (error.status === 403 || String(error.body).includes("BadDigest"))
+      ) {
+        throw new Error(`Part ${partNumber} rejected by object storage`, {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+
+    // 跨域时对象存储需要通过 CORS 的 ExposeHeaders 暴露 ETag
+    const etag = res.headers.etag;
+    if (!etag) {
+      throw new ProtocolError(presigned.url, "Missing ETag header");
+    }
+    this._partEtags(uploadId).set(partNumber, etag);
+  }
+
+  async complete(
+    file: TransportFile,
+    { parts }: CompleteRequest
+  ): Promise<MergeResponse> {
+    const { fileId, uploadId, metadata } = file;
+    const etags = this._partEtags(uploadId!);
+
+    // S3 合并时至少需要一个分片，空文件没有分片：上传一个空分片
+    if (file.size === 0) {
+      if (!etags.has(1)) {
+        await this.uploadChunk(file, {
+          offset: 0,
+          length: 0,
+          data: new Blob([]),
+        });
+      }
+      parts = [{ offset: 0, length: 0 }];
+    }
+
+    // /status 查询失败时以本地会话为准，这些分片没有 ETag，按损坏的分片重新上传
+    const missing = parts
+      .filter(({ offset }) => !etags.has(offset / this._chunkSize + 1))
+      .map(({ offset }) => offset);
+    if (missing.length > 0) {
+      return { success: false, error: "Missing ETags", corrupted: missing };
+    }
+
+    const result = await this._requester.post<MergeResponse>(
+      `${this._endpoint}/multipart/complete`,
+      {
+        fileId,
+        uploadId,
+        parts: parts.map(({ offset }) => {
+          const partNumber = offset / this._chunkSize + 1;
+          return { partNumber, etag: etags.get(partNumber) };
+        }),
+        metadata,
+      },
+      this._header
+    );
+    this._etags.delete(uploadId!);
+    return result;
+  }
+
+  async discard(file: TransportFile) {
+    if (!file.uploadId) return;
+    this._etags.delete(file.uploadId);
+    await this._requester.post(
+      `${this._endpoint}/multipart/abort`,
+      { fileId: file.fileId, uploadId: file.uploadId },
+      this._header
+    );
+  }
+
+  // 对象存储中的分片转为 offset；大小与当前 chunkSize 不符（chunkSize 改变过）的分片重新上传，同一序号会被覆盖
+  private async _listParts(
+    file: TransportFile,
+    uploadId: string,
+    signal?: AbortSignal
+  ): Promise<ChunkRange[]> {
+    const url = `${this._endpoint}/multipart/parts?fileId=${encodeURIComponent(
+      file.fileId
+    )}&uploadId=${encodeURIComponent(uploadId)}`;
+    const res = await this._requester.get<{ parts: MultipartPart[] }>(
+      url,
+      signal
+    );
+    if (!Array.isArray(res.parts)) {
+      throw new ProtocolError(url, "Incorrect response format");
+    }
+
+    const etags = this._partEtags(uploadId);
+    const parts: ChunkRange[] = [];
+    for (const { partNumber, size, etag } of res.parts) {
+      const offset = (partNumber - 1) * this._chunkSize;
+      if (offset >= file.size || size !== this._partSize(file, offset)) {
+        continue;
+      }
+      etags.set(partNumber, etag);
+      parts.push({ offset, length: size });
+    }
+    return parts;
+  }
+
+  private _partSize(file: TransportFile, offset: number): number {
+    return Math.min(this._chunkSize, file.size - offset);
+  }
+
+  private _partEtags(uploadId: string): Map<number, string> {
+    let etags = this._etags.get(uploadId);
+    if (!etags) {
+      etags = new Map();
+      this._etags.set(uploadId, etags);
+    }
+    return etags;
+  }
+}
@@ -0,0 +1,196 @@
+import { HttpError, ProtocolError } from "../common/errors";
+import type {
+  ChecksumAlgorithm,
+  MergeResponse,
+  RawRequestOptions,
+  RawResponse,
+  Requester,
+  UploadedChunks,
+} from "../common/type";
+import type {
+  TransportChunk,
+  TransportFile,
+  TransportOptions,
+  UploadTransport,
+} from "./type";
+
+const TUS_VERSION = "1.0.0";
+
+/**
+ * tus 1.0 协议（core 以及 creation、termination、checksum 扩展）
+ *
+ * POST endpoint 创建上传，返回的上传地址作为 uploadId 记录到本地会话；再次上传时 HEAD 该地址获得 Upload-Offset 续传。
+ * 分片按 offset 依次 PATCH，tus 没有合并步骤，最后一个分片完成即上传完成。
+ * 服务端在完成时返回 Upload-Saved-Path（合并后文件的地址）时以其作为 savedPath，否则为上传地址
+ */
+export class TusTransport implements UploadTransport {
+  readonly sequential = true;
+  readonly fixedChunkSize = false;
+  readonly partDigests = false;
+
+  private _endpoint: string;
+  private _requester: Requester;
+  private _header: Record<string, string>;
+  private _checksum: ChecksumAlgorithm | null;
+
+  // 上传地址 -> 服务端返回的 Upload-Saved-Path
+  private _savedPaths = new Map<string, string>();
+
+  constructor({ endpoint, requester, header, checksum }: TransportOptions) {
+    if (!requester.request) {
+      throw new Error("tus requires a Requester that implements request()");
+    }
+    this._endpoint = endpoint;
+    this._requester = requester;
+    this._header = header;
+    this._checksum = checksum;
+  }
+
+  async status(
+    file: TransportFile,
+    signal?: AbortSignal
+  ): Promise<UploadedChunks> {
+    if (file.uploadId) {
+      try {
+        const res = await this._request("HEAD", file.uploadId, { signal });
+        const offset = readOffset(file.uploadId, res);
+        this._recordSavedPath(file.uploadId, res);
+        return {
+          parts: offset > 0 ? [{ offset: 0, length: offset }] : [],
+          uploadId: file.uploadId,
+        };
+      } catch (error) {
+        // 上传已过期或被删除时重新创建
+        if (
+          !(error instanceof HttpError) ||
+          ![404, 410].includes(error.status)
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    const res = await this._request("POST", this._endpoint, {
+      headers: {
+        "Upload-Length": String(file.size),
+        "Upload-Metadata": encodeMetadata({
+          ...file.metadata,
+          fileId: file.fileId,
+        }),
+      },
+      signal,
+    });
+    const location = res.headers.location;
+    if (!location) {
+      throw new ProtocolError(this._endpoint, "Missing Location header");
+    }
+    const uploadId = resolveUrl(location, this._endpoint);
+    this._recordSavedPath(uploadId, res); // 空文件创建时即完成
+    return { parts: [], uploadId };
+  }
+
+  async uploadChunk(
+    file: TransportFile,
+    chunk: TransportChunk,
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ) {
+    const url = file.uploadId;
+    if (!url) {
+      throw new ProtocolError(this._endpoint, "Upload has not been created");
+    }
+
+    const headers: Record<string, string> = {
+      "Upload-Offset": String(chunk.offset),
+      "Content-Type": "application/offset+octet-stream",
+    };
+    if (chunk.digest) {
+      const algorithm = this._checksum!.replace("-", "").toLowerCase();
+      headers["Upload-Checksum"] = `${algorithm} ${hexToBase64(chunk.digest)}`;
+    }
+
+    const res = await this._request("PATCH", url, {
+      headers,
+      body: chunk.data,
+      signal,
+      onProgress,
+    });
+    if (readOffset(url, res) !== chunk.offset + chunk.length) {
+      throw new ProtocolError(url, "Unexpected Upload-Offset");
+    }
+    this._recordSavedPath(url, res);
+  }
+
+  async complete(file: TransportFile): Promise<MergeResponse> {
+    const uploadId = file.uploadId!;
+    const savedPath = this._savedPaths.get(uploadId) ?? uploadId;
+    this._savedPaths.delete(uploadId);
+    return { fileId: file.fileId, savedPath, metadata: file.metadata };
+  }
+
+  async discard(file: TransportFile) {
+    if (!file.uploadId) return;
+    this._savedPaths.delete(file.uploadId);
+    await this._request("DELETE", file.uploadId);
+  }
+
+  private _recordSavedPath(url: string, res: RawResponse) {
+    const savedPath = res.headers["upload-saved-path"];
+    if (savedPath) this._savedPaths.set(url, savedPath);
+  }
+
+  private _request(
+    method: string,
+    url: string,
+    options: RawRequestOptions = {}
+  ): Promise<RawResponse> {
+    return this._requester.request!(method, url, {
+      ...options,
+      headers: {
+        ...this._header,
+        "Tus-Resumable": TUS_VERSION,
+        ...options.headers,
+      },
+    });
+  }
+}
+
+function readOffset(url: string, res: RawResponse): number {
+  const offset = Number(res.headers["upload-offset"]);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ProtocolError(url, "Missing Upload-Offset header");
+  }
+  return offset;
+}
+
+// Location 可以是相对地址；endpoint 也是相对地址时原样返回，由浏览器按页面地址解析
+function resolveUrl(location: string, endpoint: string): string {
+  try {
+    return new URL(location, endpoint).href;
+  } catch {
+    return location;
+  }
+}
+
+// Upload-Metadata："key base64(value),..."，非字符串的值先转为 JSON
+function encodeMetadata(metadata: Record<string, any>): string {
+  return Object.entries(metadata)
+    .filter(([key, value]) => value !== undefined && /^[^\s,]+$/.test(key))
+    .map(([key, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return `${key} ${toBase64(new TextEncoder().encode(text))}`;
+    })
+    .join(",");
+}
+
+function hexToBase64(hex: string): string {
+  return toBase64(
+    Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16))
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
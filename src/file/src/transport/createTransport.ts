@@ -0,0 +1,18 @@
+import { DefaultTransport } from "./DefaultTransport";
+import { S3Transport } from "./S3Transport";
+import { TusTransport } from "./TusTransport";
+import type { TransportOptions, UploadProtocol, UploadTransport } from "./type";
+
+export function createTransport(
+  protocol: UploadProtocol,
+  options: TransportOptions
+): UploadTransport {
+  switch (protocol) {
+    case "tus":
+      return new TusTransport(options);
+    case "s3":
+      return new S3Transport(options);
+    default:
+      return new DefaultTransport(options);
+  }
+}
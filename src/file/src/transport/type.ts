@@ -0,0 +1,78 @@
+import type {
+  ChecksumAlgorithm,
+  ChunkRange,
+  MergeResponse,
+  Requester,
+  UploadedChunks,
+} from "../common/type";
+
+// 上传协议："default" 为内置的 /status、/upload、/merge 协议，"tus" 为 tus 1.0，
+// "s3" 为 S3 分段上传（分片通过预签名 URL 直传对象存储）
+export type UploadProtocol = "default" | "tus" | "s3";
+
+export interface TransportOptions {
+  endpoint: string;
+  requester: Requester;
+  header: Record<string, string>;
+  checksum: ChecksumAlgorithm | null;
+  chunkSize: number; // 初始分片大小
+}
+
+// 正在上传的文件
+export interface TransportFile {
+  fileId: string;
+  size: number;
+  metadata: Record<string, any>;
+  uploadId?: string; // 服务端上传会话 id（tus 为上传地址），由 status 返回后记录
+  sha256?: string; // 文件内容的 SHA-256（hex，已知时），服务端据此确认秒传
+}
+
+export interface TransportChunk extends ChunkRange {
+  data: Blob;
+  digest?: string; // 开启 checksum 时的分片摘要（hex）
+}
+
+export interface CompleteRequest {
+  parts: (ChunkRange & { digest?: string })[]; // 按 offset 排序、首尾相连
+  partsDigest?: string; // 组合摘要：分片摘要（hex）依次拼接后再计算的摘要，不是文件内容的摘要
+}
+
+/**
+ * 上传协议的实现，每个方法只发送一次请求，重试与超时由 uploader 负责
+ */
+export interface UploadTransport {
+  // 分片必须按 offset 依次上传（如 tus），此时每个文件同时只上传一个分片
+  readonly sequential: boolean;
+  // 除最后一个分片外都必须是 chunkSize（如 S3 按分片序号拼接），此时不能自适应分片
+  readonly fixedChunkSize: boolean;
+  // complete 是否需要每个分片的摘要（续传跳过的分片需要重新读取计算）
+  readonly partDigests: boolean;
+  // 查询已上传的分片，必要时在服务端创建上传会话并返回 uploadId
+  status(file: TransportFile, signal?: AbortSignal): Promise<UploadedChunks>;
+  uploadChunk(
+    file: TransportFile,
+    chunk: TransportChunk,
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<void>;
+  // 所有分片上传完成后调用，校验失败时返回 { success: false, corrupted }
+  complete(
+    file: TransportFile,
+    request: CompleteRequest
+  ): Promise<MergeResponse>;
+  // 删除服务端已上传的分片
+  discard(file: TransportFile): Promise<void>;
+}
+
+// S3 分段上传中对象存储已保存的分片
+export interface MultipartPart {
+  partNumber: number; // 从 1 开始
+  size: number;
+  etag: string;
+}
+
+// 预签名的分片上传请求，客户端原样发送 headers
+export interface PresignedRequest {
+  url: string;
+  headers?: Record<string, string>;
+}
@@ -0,0 +1,748 @@
+import { describe, it, expect, vi } from "vitest";
+import { AsyncScheduler } from "../../async/src/AsyncScheduler";
+import { BigUploader } from "../src/browser/BigUploaderBrowser";
+import { HttpError, TimeoutError } from "../src/common/errors";
+import { MemorySessionStore } from "../src/session/MemorySessionStore";
+import type { ChunkRange, Requester } from "../src/common/type";
+
+// 可控的 Requester：分片请求在 release 之前一直挂起
+function createRequester(parts: ChunkRange[] = []) {
+  const pending: { url: string; resolve: () => void }[] = [];
+  const requester = {
+    get: vi.fn(async (): Promise<any> => ({ parts })),
+    post: vi.fn(
+      async (url: string, data: any): Promise<any> =>
+        url.endsWith("/merge")
+          ? {
+              fileId: data.fileId,
+              savedPath: "/merged/f",
+              metadata: data.metadata,
+            }
+          : { success: true }
+    ),
+    uploadChunk: vi.fn(
+      (url: string, _chunk: Blob, _headers?: any, signal?: AbortSignal) =>
+        new Promise<any>((resolve, reject) => {
+          pending.push({ url, resolve: () => resolve({ success: true }) });
+          signal?.addEventListener("abort", () => reject(new Error("Aborted")));
+        })
+    ),
+  } satisfies Requester;
+
+  // 完成最早发起的 n 个分片请求
+  const release = async (n = Infinity) => {
+    pending.splice(0, n).forEach((request) => request.resolve());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  return { requester, pending, release };
+}
+
+const file = new Blob([new Uint8Array(10)]);
+
+function createUploader(requester: Requester, options = {}) {
+  return new BigUploader({
+    endpoint: "/api",
+    chunkSize: 2,
+    concurrency: 2,
+    computeHash: async () => "f",
+    checksum: null,
+    requester,
+    ...options,
+  });
+}
+
+describe("BigUploader", () => {
+  it("should not keep finished chunk tasks across many uploads", async () => {
+    const addTask = vi.spyOn(AsyncScheduler.prototype, "addTask");
+    try {
+      const { requester } = createRequester();
+      requester.uploadChunk.mockImplementation(async () => ({
+        success: true,
+      }));
+      const uploader = createUploader(requester);
+
+      for (let i = 0; i < 20; i++) {
+        await uploader.upload(file);
+      }
+      await Promise.resolve();
+
+      const schedulers = new Set(addTask.mock.contexts as AsyncScheduler[]);
+      expect(addTask.mock.calls.length).toBeGreaterThan(100);
+      for (const scheduler of schedulers) {
+        expect(scheduler.getStats().total).toBe(0);
+        expect(scheduler.asyncResults).toEqual([]);
+      }
+    } finally {
+      addTask.mockRestore();
+    }
+  });
+
+  it("should only accept declared event names and payloads", () => {
+    const uploader = createUploader(createRequester([]).requester);
+
+    // @ts-expect-error 未声明的事件
+    uploader.on("completed", () => {});
+    // @ts-expect-error 回调参数类型不符
+    uploader.on("chunkUploaded", (_fileId: string, _offset: string) => {});
+  });
+
+  it("should upload missing chunks with bounded concurrency and report progress", async () => {
+    const { requester, pending, release } = createRequester([
+      { offset: 0, length: 2 },
+    ]);
+    const uploader = createUploader(requester);
+    const progress = vi.fn();
+    const chunkUploaded = vi.fn();
+    uploader.on("progress", progress);
+    uploader.on("chunkUploaded", chunkUploaded);
+
+    const result = uploader.upload(file, { projectId: "1" });
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    expect(uploader.getStatus("f")!.progress.loaded).toBe(2);
+
+    while (pending.length > 0) await release(1);
+
+    await expect(result).resolves.toMatchObject({
+      fileId: "f",
+      metadata: { projectId: "1" },
+    });
+    expect(requester.uploadChunk).toHaveBeenCalledTimes(4);
+    expect(chunkUploaded.mock.calls.map(([, offset]) => offset)).toEqual([
+      2, 4, 6, 8,
+    ]);
+    expect(progress).toHaveBeenLastCalledWith(
+      "f",
+      expect.objectContaining({ loaded: 10, total: 10, percent: 100 })
+    );
+    expect(uploader.getStatus("f")).toMatchObject({
+      status: "completed",
+      uploadedChunks: 5,
+      totalChunks: 5,
+    });
+  });
+
+  it("should stop dispatching chunks while paused", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester);
+
+    const result = uploader.upload(file);
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+    uploader.pause("f");
+    await release();
+    expect(pending).toHaveLength(0);
+    expect(uploader.getStatus("f")).toMatchObject({
+      status: "paused",
+      uploadedChunks: 2,
+    });
+
+    uploader.resume("f");
+    expect(pending).toHaveLength(2);
+    while (pending.length > 0) await release(1);
+    await expect(result).resolves.toMatchObject({ fileId: "f" });
+  });
+
+  it("should abort in-flight chunks on pause and upload them again on resume", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester);
+    const retry = vi.fn();
+    uploader.on("retry", retry);
+
+    const result = uploader.upload(file);
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+    // 暂停后立即恢复：被中止的分片不能被当作失败
+    uploader.pause("f", { abort: true });
+    pending.length = 0;
+    uploader.resume("f");
+
+    await vi.waitFor(() =>
+      expect(pending.map((request) => request.url)).toEqual([
+        "/api/upload?fileId=f&offset=0&length=2",
+        "/api/upload?fileId=f&offset=2&length=2",
+      ])
+    );
+    while (pending.length > 0) await release(1);
+    await result;
+    expect(retry).not.toHaveBeenCalled();
+  });
+
+  it("should encode the fileId in request URLs", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester, {
+      computeHash: async () => "a&b c",
+    });
+
+    const result = uploader.upload(file);
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    expect(requester.get).toHaveBeenCalledWith(
+      "/api/status?fileId=a%26b%20c",
+      expect.any(AbortSignal)
+    );
+    expect(pending[0].url).toBe(
+      "/api/upload?fileId=a%26b%20c&offset=0&length=2"
+    );
+    while (pending.length > 0) await release(1);
+    await result;
+  });
+
+  it("should wait for resume when autoStart is false", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester, { autoStart: false });
+    const onPending = vi.fn();
+    uploader.on("pending", onPending);
+
+    const result = uploader.upload(file);
+    await vi.waitFor(() => expect(onPending).toHaveBeenCalledWith("f"));
+    expect(pending).toHaveLength(0);
+
+    uploader.resume("f");
+    while (pending.length > 0) await release(1);
+    await expect(result).resolves.toMatchObject({ fileId: "f" });
+  });
+
+  it("should cancel the upload and ask the server to discard parts", async () => {
+    const { requester, pending } = createRequester();
+    const uploader = createUploader(requester);
+    const onCancel = vi.fn();
+    uploader.on("cancel", onCancel);
+
+    const result = uploader.upload(file);
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+    await uploader.cancel("f", { discard: true });
+    await expect(result).rejects.toThrow("Upload Cancelled");
+    expect(onCancel).toHaveBeenCalledWith("f");
+    expect(requester.post).toHaveBeenCalledWith(
+      "/api/discard",
+      { fileId: "f" },
+      {}
+    );
+    expect(uploader.getStatus("f")!.status).toBe("canceled");
+  });
+
+  it("should retry failed chunks and fail after the last attempt", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockImplementation(async () => {
+      throw new Error("network");
+    });
+    const uploader = createUploader(requester, { retry: 2, concurrency: 1 });
+    const retry = vi.fn();
+    const onError = vi.fn();
+    uploader.on("retry", retry);
+    uploader.on("error", onError);
+
+    await expect(uploader.upload(file)).rejects.toThrow(
+      "Chunk at offset 0 failed after 2 attempts."
+    );
+    expect(retry).toHaveBeenCalledWith("f", 0, 1, expect.any(Error));
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(uploader.getStatus("f")!.status).toBe("failed");
+  });
+});
+
+describe("BigUploader instant upload", () => {
+  it("should skip chunks and merge when the server already has the file", async () => {
+    const { requester } = createRequester();
+    const existing = { fileId: "f", savedPath: "/merged/f.bin", metadata: {} };
+    requester.get.mockResolvedValue({ parts: [], file: existing });
+    const uploader = createUploader(requester);
+    const progress = vi.fn();
+    uploader.on("progress", progress);
+
+    await expect(uploader.upload(file, { projectId: "1" })).resolves.toEqual({
+      ...existing,
+      instant: true,
+    });
+    expect(requester.uploadChunk).not.toHaveBeenCalled();
+    expect(requester.post).not.toHaveBeenCalled();
+    expect(progress).toHaveBeenCalledWith(
+      "f",
+      expect.objectContaining({ loaded: 10, percent: 100 })
+    );
+    expect(uploader.getStatus("f")!.status).toBe("completed");
+  });
+});
+
+describe("BigUploader hash mode", () => {
+  it("should hash the entire file in full mode and report hashing progress", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockResolvedValue({ success: true });
+    const uploader = createUploader(requester, {
+      computeHash: null,
+      hashMode: "full",
+      hashSliceSize: 4,
+    });
+    const hashProgress = vi.fn();
+    uploader.on("hashProgress", hashProgress);
+
+    // 头尾相同、只有中间不同的两个文件
+    const a = new Blob([new Uint8Array(10)]);
+    const b = new Blob([new Uint8Array([0, 0, 0, 0, 1, 0, 0, 0, 0, 0])]);
+    const [first, second] = await Promise.all([
+      uploader.upload(a),
+      uploader.upload(b),
+    ]);
+
+    expect(first.fileId).not.toBe(second.fileId);
+    expect(first.fileId).toMatch(/^[0-9a-f]{64}_10$/);
+    // 全量 hash 即文件内容的 sha256，查询与合并时带上，服务端据此确认秒传
+    const hash = first.fileId.split("_")[0];
+    expect(requester.get).toHaveBeenCalledWith(
+      `/api/status?fileId=${first.fileId}&sha256=${hash}`,
+      expect.any(AbortSignal)
+    );
+    expect(requester.post).toHaveBeenCalledWith(
+      "/api/merge",
+      expect.objectContaining({ fileId: first.fileId, sha256: hash }),
+      {}
+    );
+    expect(hashProgress).toHaveBeenCalledWith(a, {
+      loaded: 4,
+      total: 10,
+      percent: 40,
+    });
+    expect(hashProgress).toHaveBeenCalledWith(b, {
+      loaded: 10,
+      total: 10,
+      percent: 100,
+    });
+  });
+});
+
+describe("BigUploader checksum", () => {
+  const sha256 = async (data: BufferSource) =>
+    Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", data)))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+
+  it("should send chunk digests and the composite file digest", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester, { checksum: "SHA-256" });
+
+    const result = uploader.upload(file);
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    while (pending.length > 0) await release(1);
+    await result;
+
+    const digest = await sha256(new Uint8Array(2));
+    expect(requester.uploadChunk).toHaveBeenCalledWith(
+      "/api/upload?fileId=f&offset=0&length=2",
+      expect.any(Blob),
+      { "X-Chunk-Checksum": digest, "X-Checksum-Algorithm": "SHA-256" },
+      expect.any(AbortSignal),
+      expect.any(Function)
+    );
+    const parts = [0, 2, 4, 6, 8].map((offset) => ({
+      offset,
+      length: 2,
+      digest,
+    }));
+    expect(requester.post).toHaveBeenCalledWith(
+      "/api/merge",
+      {
+        fileId: "f",
+        size: 10,
+        parts,
+        metadata: {},
+        algorithm: "SHA-256",
+        partsDigest: await sha256(
+          new TextEncoder().encode(Array(5).fill(digest).join(""))
+        ),
+      },
+      {}
+    );
+  });
+
+  it("should retry a chunk the server rejected", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk
+      .mockResolvedValueOnce({ success: false, error: "Checksum mismatch" })
+      .mockResolvedValue({ success: true });
+    const uploader = createUploader(requester, { concurrency: 1 });
+    const retry = vi.fn();
+    uploader.on("retry", retry);
+
+    await expect(uploader.upload(file)).resolves.toMatchObject({
+      fileId: "f",
+    });
+    expect(retry).toHaveBeenCalledWith(
+      "f",
+      0,
+      1,
+      expect.objectContaining({ message: "Checksum mismatch" })
+    );
+  });
+
+  it("should re-upload only the corrupted chunks reported by merge", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockResolvedValue({ success: true });
+    requester.post.mockResolvedValueOnce({
+      success: false,
+      error: "Checksum mismatch",
+      corrupted: [6],
+    });
+    const uploader = createUploader(requester, { checksum: "SHA-256" });
+    const corrupted = vi.fn();
+    uploader.on("corrupted", corrupted);
+
+    await expect(uploader.upload(file)).resolves.toMatchObject({
+      fileId: "f",
+    });
+    expect(corrupted).toHaveBeenCalledWith("f", [6]);
+    expect(requester.uploadChunk).toHaveBeenCalledTimes(6);
+    expect(requester.uploadChunk.mock.calls[5][0]).toBe(
+      "/api/upload?fileId=f&offset=6&length=2"
+    );
+    expect(requester.post).toHaveBeenCalledTimes(2);
+    expect(uploader.getStatus("f")!.status).toBe("completed");
+  });
+
+  it("should fail when merge keeps reporting corrupted chunks", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockResolvedValue({ success: true });
+    requester.post.mockResolvedValue({
+      success: false,
+      error: "Checksum mismatch",
+      corrupted: [0],
+    });
+    const uploader = createUploader(requester, { retry: 2 });
+
+    await expect(uploader.upload(file)).rejects.toThrow("Checksum mismatch");
+    expect(requester.post).toHaveBeenCalledTimes(2);
+    expect(uploader.getStatus("f")!.status).toBe("failed");
+  });
+});
+
+describe("BigUploader request errors", () => {
+  it("should not retry chunks rejected with a non-retryable status", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockRejectedValue(
+      new HttpError("/api/upload", 413, { error: "Too large" })
+    );
+    const uploader = createUploader(requester, { concurrency: 1 });
+    const retry = vi.fn();
+    uploader.on("retry", retry);
+
+    await expect(uploader.upload(file)).rejects.toThrow(
+      "Chunk at offset 0 failed after 1 attempts."
+    );
+    expect(retry).not.toHaveBeenCalled();
+  });
+
+  it("should treat a 422 merge response as a checksum failure", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockResolvedValue({ success: true });
+    requester.post.mockRejectedValueOnce(
+      new HttpError("/api/merge", 422, { success: false, corrupted: [0] })
+    );
+    const uploader = createUploader(requester);
+    const corrupted = vi.fn();
+    uploader.on("corrupted", corrupted);
+
+    await expect(uploader.upload(file)).resolves.toMatchObject({
+      fileId: "f",
+    });
+    expect(corrupted).toHaveBeenCalledWith("f", [0]);
+  });
+
+  it("should report bytes sent by the requester as chunk progress", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockImplementation(
+      async (
+        _url: string,
+        _chunk: Blob,
+        _headers?: any,
+        _signal?: AbortSignal,
+        onProgress?: (loaded: number, total: number) => void
+      ) => {
+        onProgress?.(1, 2);
+        return { success: true };
+      }
+    );
+    const uploader = createUploader(requester, { concurrency: 1 });
+    const chunkProgress = vi.fn();
+    uploader.on("chunkProgress", chunkProgress);
+
+    await uploader.upload(file);
+    expect(chunkProgress.mock.calls.slice(0, 2)).toEqual([
+      ["f", 0, 1, 2],
+      ["f", 0, 2, 2],
+    ]);
+  });
+});
+
+describe("BigUploader sessions", () => {
+  const named = (name: string) => new File([new Uint8Array(10)], name);
+
+  it("should list unfinished uploads and resume them with a reattached file", async () => {
+    const sessionStore = new MemorySessionStore();
+    const first = createRequester();
+    const uploader = createUploader(first.requester, { sessionStore });
+
+    // 暂停时上传中的分片仍会完成，随后页面被关闭
+    const result = uploader.upload(named("a.bin"), { projectId: "1" });
+    await vi.waitFor(() => expect(first.pending).toHaveLength(2));
+    await first.release();
+    uploader.pause("f");
+    await first.release();
+    result.catch(() => {});
+
+    // 刷新后：服务端 /status 不可用，以本地会话为准
+    const second = createRequester();
+    second.requester.get.mockRejectedValue(new Error("offline"));
+    const reloaded = createUploader(second.requester, {
+      sessionStore,
+      chunkSize: 4,
+      retry: 1,
+    });
+    const sessions = await reloaded.listSessions();
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        fileId: "f",
+        fileName: "a.bin",
+        size: 10,
+        parts: [0, 2, 4, 6].map((offset) => ({ offset, length: 2 })),
+        metadata: { projectId: "1" },
+      }),
+    ]);
+
+    const resumed = reloaded.resumeSession("f", named("a.bin"));
+    await vi.waitFor(() => expect(second.pending).toHaveLength(1));
+    while (second.pending.length > 0) await second.release(1);
+    await expect(resumed).resolves.toMatchObject({
+      metadata: { projectId: "1" },
+    });
+
+    // 已上传的分片与本次的分片大小不同，只上传剩余的区间
+    expect(second.requester.uploadChunk.mock.calls.map(([url]) => url)).toEqual(
+      ["/api/upload?fileId=f&offset=8&length=2"]
+    );
+    await vi.waitFor(async () =>
+      expect(await reloaded.listSessions()).toEqual([])
+    );
+  });
+
+  it("should reject a reattached file that does not match the session", async () => {
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.set({
+      fileId: "other",
+      size: 10,
+      parts: [],
+      metadata: {},
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const { requester } = createRequester();
+    const uploader = createUploader(requester, { sessionStore });
+
+    await expect(
+      uploader.resumeSession("other", new Blob([new Uint8Array(4)]))
+    ).rejects.toThrow('File does not match upload session "other"');
+    await expect(uploader.resumeSession("other", file)).rejects.toThrow(
+      'File does not match upload session "other"'
+    );
+    await expect(uploader.resumeSession("missing", file)).rejects.toThrow(
+      'Upload session "missing" not found or expired'
+    );
+  });
+
+  it("should drop expired sessions", async () => {
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.set({
+      fileId: "old",
+      size: 10,
+      parts: [{ offset: 0, length: 2 }],
+      metadata: {},
+      createdAt: 0,
+      updatedAt: Date.now() - 2000,
+    });
+    const { requester } = createRequester();
+    const uploader = createUploader(requester, {
+      sessionStore,
+      sessionTTL: 1000,
+    });
+
+    expect(await uploader.listSessions()).toEqual([]);
+    expect(await sessionStore.get("old")).toBeNull();
+  });
+});
+
+describe("BigUploader adaptive chunk size", () => {
+  const urls = (requester: { uploadChunk: { mock: { calls: any[][] } } }) =>
+    requester.uploadChunk.mock.calls.map(([url]) => url);
+
+  it("should grow chunks on a fast connection within the bounds", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk.mockResolvedValue({ success: true });
+    const uploader = createUploader(requester, {
+      concurrency: 1,
+      adaptiveChunkSize: { minChunkSize: 2, maxChunkSize: 8 },
+    });
+
+    await uploader.upload(new Blob([new Uint8Array(30)]));
+
+    // 每次最多扩大一倍，不超过 maxChunkSize
+    expect(urls(requester)).toEqual([
+      "/api/upload?fileId=f&offset=0&length=2",
+      "/api/upload?fileId=f&offset=2&length=4",
+      "/api/upload?fileId=f&offset=6&length=8",
+      "/api/upload?fileId=f&offset=14&length=8",
+      "/api/upload?fileId=f&offset=22&length=8",
+    ]);
+    expect(requester.post).toHaveBeenCalledWith(
+      "/api/merge",
+      expect.objectContaining({
+        size: 30,
+        parts: [
+          { offset: 0, length: 2 },
+          { offset: 2, length: 4 },
+          { offset: 6, length: 8 },
+          { offset: 14, length: 8 },
+          { offset: 22, length: 8 },
+        ],
+      }),
+      {}
+    );
+  });
+
+  it("should split a chunk that timed out and retry the smaller part", async () => {
+    const { requester } = createRequester();
+    requester.uploadChunk
+      .mockRejectedValueOnce(new TimeoutError("/api/upload", 100))
+      .mockResolvedValue({ success: true });
+    const uploader = createUploader(requester, {
+      chunkSize: 8,
+      concurrency: 1,
+      adaptiveChunkSize: { minChunkSize: 2, maxChunkSize: 8 },
+    });
+    const retry = vi.fn();
+    uploader.on("retry", retry);
+
+    await uploader.upload(file);
+
+    expect(retry).toHaveBeenCalledWith("f", 0, 1, expect.any(TimeoutError));
+    expect(urls(requester)).toEqual([
+      "/api/upload?fileId=f&offset=0&length=8",
+      "/api/upload?fileId=f&offset=0&length=4",
+      "/api/upload?fileId=f&offset=4&length=6",
+    ]);
+  });
+
+  it("should resume around server parts of different sizes", async () => {
+    // 与第一个分片重叠的旧分片被忽略，其区间重新上传
+    const { requester } = createRequester([
+      { offset: 0, length: 3 },
+      { offset: 2, length: 4 },
+      { offset: 6, length: 2 },
+    ]);
+    requester.uploadChunk.mockResolvedValue({ success: true });
+    const uploader = createUploader(requester, { concurrency: 1 });
+
+    await uploader.upload(file);
+
+    expect(urls(requester)).toEqual([
+      "/api/upload?fileId=f&offset=3&length=2",
+      "/api/upload?fileId=f&offset=5&length=1",
+      "/api/upload?fileId=f&offset=8&length=2",
+    ]);
+    expect(requester.post.mock.calls[0][1].parts).toEqual([
+      { offset: 0, length: 3 },
+      { offset: 3, length: 2 },
+      { offset: 5, length: 1 },
+      { offset: 6, length: 2 },
+      { offset: 8, length: 2 },
+    ]);
+  });
+});
+
+describe("BigUploader multiple files", () => {
+  const named = (name: string, size = 4) =>
+    new File([new Uint8Array(size)], name);
+
+  // 模拟拖入的目录 entry
+  function fileEntry(file: File, fullPath: string) {
+    return {
+      isFile: true,
+      fullPath,
+      file: (resolve: (file: File) => void) => resolve(file),
+    };
+  }
+  function directoryEntry(children: any[]) {
+    let read = false;
+    return {
+      isFile: false,
+      createReader: () => ({
+        readEntries: (resolve: (entries: any[]) => void) => {
+          resolve(read ? [] : children);
+          read = true;
+        },
+      }),
+    };
+  }
+
+  it("should share the chunk concurrency budget and honor file priority", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester, {
+      computeHash: async (file: File) => file.name,
+    });
+
+    const low = uploader.upload(named("low"));
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    const high = uploader.upload(named("high"), {}, { priority: 1 });
+    await vi.waitFor(() => expect(uploader.getStatus("high")).toBeDefined());
+
+    // 全局只有 2 个分片并发，空出的槽位优先给高优先级文件
+    expect(pending).toHaveLength(2);
+    await release(1);
+    expect(pending.map((request) => request.url)).toEqual([
+      "/api/upload?fileId=low&offset=2&length=2",
+      "/api/upload?fileId=high&offset=0&length=2",
+    ]);
+
+    while (pending.length > 0) await release(1);
+    await Promise.all([low, high]);
+    expect(uploader.getTotalProgress()).toMatchObject({
+      loaded: 8,
+      total: 8,
+      percent: 100,
+    });
+  });
+
+  it("should upload dropped directories and cancel files independently", async () => {
+    const { requester, pending, release } = createRequester();
+    const uploader = createUploader(requester, {
+      computeHash: async (file: File) => file.name,
+    });
+    const a = named("a.txt");
+    const b = named("b.txt");
+    const drop = {
+      dropEffect: "copy",
+      items: [
+        {
+          kind: "file",
+          webkitGetAsEntry: () =>
+            directoryEntry([
+              fileEntry(a, "/docs/a.txt"),
+              directoryEntry([fileEntry(b, "/docs/sub/b.txt")]),
+            ]),
+        },
+      ],
+    } as unknown as DataTransfer;
+
+    const results = uploader.uploadFiles(drop, { metadata: { owner: "me" } });
+    await vi.waitFor(() => expect(uploader.listTasks()).toHaveLength(2));
+    await uploader.cancel("b.txt");
+    while (pending.length > 0) await release(1);
+
+    expect(await results).toMatchObject([
+      {
+        file: a,
+        status: "completed",
+        result: { metadata: { owner: "me", relativePath: "docs/a.txt" } },
+      },
+      { file: b, status: "canceled" },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { BigUploaderNode } from "../src/node/BigUploaderNode";
+import { NodeRequester } from "../src/node/api/requester";
+import type { ChunkRange, Requester } from "../src/common/type";
+
+const sha256 = (data: Uint8Array | string) =>
+  createHash("sha256").update(data).digest("hex");
+
+// 记录收到的分片内容（offset -> 内容）
+function createRequester(parts: ChunkRange[] = []) {
+  const received = new Map<number, Uint8Array>();
+  const requester = {
+    get: vi.fn(async (): Promise<any> => ({ parts })),
+    post: vi.fn(
+      async (_url: string, data: any): Promise<any> => ({
+        fileId: data.fileId,
+        savedPath: `/merged/${data.fileId}.bin`,
+        metadata: data.metadata,
+      })
+    ),
+    uploadChunk: vi.fn(async (url: string, chunk: Blob): Promise<any> => {
+      const offset = Number(new URL(url).searchParams.get("offset"));
+      received.set(offset, new Uint8Array(await chunk.arrayBuffer()));
+      return { success: true };
+    }),
+  } satisfies Requester;
+  return { requester, received };
+}
+
+describe("BigUploaderNode", () => {
+  const data = Uint8Array.from({ length: 10 }, (_, i) => i);
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "big-uploader-test-"));
+    path = join(dir, "file.bin");
+    await writeFile(path, data);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read missing chunks by range and merge with digests", async () => {
+    const { requester, received } = createRequester([{ offset: 4, length: 4 }]);
+    const uploader = new BigUploaderNode({
+      endpoint: "http://localhost/api",
+      chunkSize: 4,
+      requester,
+    });
+    const progress = vi.fn();
+    uploader.on("progress", progress);
+
+    const fileId = `${sha256(data)}_10`;
+    await expect(uploader.upload(path, { job: "1" })).resolves.toEqual({
+      fileId,
+      savedPath: `/merged/${fileId}.bin`,
+      metadata: { job: "1" },
+    });
+
+    expect(requester.get).toHaveBeenCalledWith(
+      `http://localhost/api/status?fileId=${fileId}&sha256=${sha256(data)}`,
+      expect.any(AbortSignal)
+    );
+    expect([...received.keys()].sort()).toEqual([0, 8]);
+    expect(received.get(0)).toEqual(data.subarray(0, 4));
+    expect(received.get(8)).toEqual(data.subarray(8));
+    expect(requester.uploadChunk).toHaveBeenCalledWith(
+      `http://localhost/api/upload?fileId=${fileId}&offset=0&length=4`,
+      expect.any(Blob),
+      {
+        "X-Chunk-Checksum": sha256(data.subarray(0, 4)),
+        "X-Checksum-Algorithm": "SHA-256",
+      },
+      expect.any(AbortSignal),
+      undefined
+    );
+
+    // 跳过的分片在合并前读取计算摘要
+    const parts = [0, 4, 8].map((offset) => ({
+      offset,
+      length: Math.min(4, 10 - offset),
+      digest: sha256(data.subarray(offset, offset + 4)),
+    }));
+    expect(requester.post).toHaveBeenCalledWith(
+      "http://localhost/api/merge",
+      {
+        fileId,
+        size: 10,
+        parts,
+        metadata: { job: "1" },
+        sha256: sha256(data),
+        algorithm: "SHA-256",
+        partsDigest: sha256(parts.map(({ digest }) => digest).join("")),
+      },
+      {}
+    );
+    expect(progress).toHaveBeenLastCalledWith(
+      fileId,
+      expect.objectContaining({ loaded: 10, total: 10, percent: 100 })
+    );
+  });
+
+  it("should spool a Readable to a temporary file and remove it afterwards", async () => {
+    const { requester, received } = createRequester();
+    const uploader = new BigUploaderNode({
+      endpoint: "http://localhost/api",
+      chunkSize: 4,
+      checksum: null,
+      requester,
+      tmpDir: dir,
+    });
+
+    const result = await uploader.upload(
+      Readable.from([data.subarray(0, 3), data.subarray(3)])
+    );
+
+    expect(result.fileId).toBe(`${sha256(data)}_10`);
+    expect(received.size).toBe(3);
+    expect(await readdir(dir)).toEqual(["file.bin"]);
+  });
+
+  it("should cancel the upload when the signal is aborted", async () => {
+    const { requester } = createRequester();
+    const controller = new AbortController();
+    requester.uploadChunk.mockImplementation(
+      (_url: string, _chunk: Blob, _headers?: any, signal?: AbortSignal) =>
+        new Promise<any>((_, reject) => {
+          controller.abort();
+          signal?.addEventListener("abort", () => reject(new Error("Aborted")));
+        })
+    );
+    const uploader = new BigUploaderNode({
+      endpoint: "http://localhost/api",
+      chunkSize: 4,
+      requester,
+    });
+    const onCancel = vi.fn();
+    uploader.on("cancel", onCancel);
+
+    await expect(
+      uploader.upload(path, {}, { signal: controller.signal })
+    ).rejects.toThrow("Upload Cancelled");
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(requester.post).not.toHaveBeenCalled();
+  });
+});
+
+describe("NodeRequester", () => {
+  it("should send JSON and binary bodies over node:http", async () => {
+    const requests: {
+      method?: string;
+      url?: string;
+      type?: string;
+      body: string;
+    }[] = [];
+    const server = createServer((req, res) => {
+      const body: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => body.push(chunk));
+      req.on("end", () => {
+        requests.push({
+          method: req.method,
+          url: req.url,
+          type: req.headers["content-type"],
+          body: Buffer.concat(body).toString("utf8"),
+        });
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ ok: true }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    try {
+      const requester = new NodeRequester();
+      await expect(requester.get(`${base}/status?fileId=f`)).resolves.toEqual({
+        ok: true,
+      });
+      await requester.post(`${base}/merge`, { fileId: "f" });
+      await requester.uploadChunk(`${base}/upload`, new Blob(["abc"]), {
+        "X-Chunk-Checksum": "x",
+      });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    expect(requests).toEqual([
+      { method: "GET", url: "/status?fileId=f", type: undefined, body: "" },
+      {
+        method: "POST",
+        url: "/merge",
+        type: "application/json",
+        body: '{"fileId":"f"}',
+      },
+      {
+        method: "POST",
+        url: "/upload",
+        type: "application/octet-stream",
+        body: "abc",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { ChunkSizer } from "../src/common/ChunkSizer";
+
+describe("ChunkSizer", () => {
+  const options = {
+    minChunkSize: 100,
+    maxChunkSize: 10_000,
+    targetDuration: 1000,
+  };
+
+  it("should size chunks to the target duration after the round trip", () => {
+    const sizer = new ChunkSizer(1000, options);
+    sizer.recordRtt(200);
+
+    // 1000 字节用 700ms（其中 RTT 200ms）：2 字节/ms，目标 1000ms 中 800ms 用于传输
+    sizer.record(1000, 700);
+    expect(sizer.size).toBe(1600);
+  });
+
+  it("should change by at most a factor of two and stay within bounds", () => {
+    const sizer = new ChunkSizer(1000, options);
+    sizer.record(1000, 1);
+    expect(sizer.size).toBe(2000);
+
+    const slow = new ChunkSizer(1000, options);
+    slow.record(1000, 100_000);
+    expect(slow.size).toBe(500);
+
+    slow.shrink();
+    slow.shrink();
+    slow.shrink();
+    expect(slow.size).toBe(100);
+    expect(new ChunkSizer(1_000_000, options).size).toBe(10_000);
+  });
+});
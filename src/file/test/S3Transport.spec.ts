@@ -0,0 +1,354 @@
+import { createHash } from "node:crypto";
+import { describe, it, expect, vi } from "vitest";
+import { BigUploader } from "../src/browser/BigUploaderBrowser";
+import { HttpError } from "../src/common/errors";
+import type { RawRequestOptions, Requester } from "../src/common/type";
+import { ObjectStoreError } from "../src/node/multipart/errors";
+import { MemoryObjectStore } from "../src/node/multipart/MemoryObjectStore";
+import { MultipartService } from "../src/node/multipart/MultipartService";
+import { MemorySessionStore } from "../src/session/MemorySessionStore";
+
+const data = Uint8Array.from({ length: 10 }, (_, i) => i);
+
+// S3 除最后一个分片外的最小分片大小，上传 3 个分片
+const PART = 5 * 1024 * 1024;
+const large = Uint8Array.from({ length: 2 * PART + 2 }, (_, i) => i % 251);
+// 大数组逐项比较太慢，比较摘要
+const sha256 = (bytes?: Uint8Array) =>
+  bytes && createHash("sha256").update(bytes).digest("hex");
+
+// 服务端与对象存储都在内存中：post / get 交给 MultipartService，PUT 交给 MemoryObjectStore
+function createS3() {
+  const store = new MemoryObjectStore({
+    baseUrl: "http://s3.local/bucket",
+  });
+  const service = new MultipartService({ store });
+
+  // ObjectStoreError 转为 HttpError，与 express 路由的响应一致
+  const respond = async <T>(url: string, handler: () => Promise<T>) => {
+    try {
+      return await handler();
+    } catch (err) {
+      if (!(err instanceof ObjectStoreError)) throw err;
+      throw new HttpError(url, err.status, `<Code>${err.code}</Code>`);
+    }
+  };
+
+  const requester = {
+    get: vi.fn(
+      (url: string): Promise<any> =>
+        respond(url, async () => {
+          const { searchParams } = new URL(url);
+          const result = await service.listParts(
+            searchParams.get("fileId")!,
+            searchParams.get("uploadId")!
+          );
+          if (!result) throw new ObjectStoreError("NoSuchUpload", "", 404);
+          return result;
+        })
+    ),
+    post: vi.fn(
+      (url: string, body: any, _headers?: any): Promise<any> =>
+        respond(url, async () => {
+          switch (new URL(url).pathname) {
+            case "/api/multipart/create":
+              return service.create(body);
+            case "/api/multipart/sign":
+              return service.sign(body);
+            case "/api/multipart/complete":
+              return service.complete(body);
+            case "/api/multipart/abort":
+              return service.abort(body);
+          }
+        })
+    ),
+    uploadChunk: vi.fn(async (): Promise<any> => ({})),
+    request: vi.fn(
+      (
+        method: string,
+        url: string,
+        { headers = {}, body }: RawRequestOptions = {}
+      ) =>
+        respond(url, async () => {
+          expect(method).toBe("PUT");
+          const bytes = new Uint8Array(await (body as Blob).arrayBuffer());
+          const etag = await store.putPart(url, headers, bytes);
+          return { status: 200, headers: { etag }, body: "" };
+        })
+    ),
+  } satisfies Requester;
+
+  return { store, requester };
+}
+
+function createUploader(requester: Requester, options = {}) {
+  return new BigUploader({
+    endpoint: "http://localhost/api",
+    protocol: "s3",
+    chunkSize: PART,
+    computeHash: async () => "f",
+    checksum: null,
+    requester,
+    ...options,
+  });
+}
+
+describe("BigUploader s3 protocol", () => {
+  it("should PUT parts to presigned URLs and complete with their ETags", async () => {
+    const { store, requester } = createS3();
+    const uploader = createUploader(requester, {
+      checksum: "SHA-256",
+      header: { Authorization: "Bearer t" },
+    });
+
+    await expect(
+      uploader.upload(new Blob([large]), { projectId: "1" })
+    ).resolves.toEqual({
+      fileId: "f",
+      savedPath: "http://s3.local/bucket/uploads%2Ff",
+      metadata: { projectId: "1" },
+    });
+    const object = store.getObject("uploads/f");
+    expect(object?.metadata).toEqual({ projectId: "1" });
+    expect(sha256(object?.data)).toBe(sha256(large));
+
+    // 签发请求带 token 与分片摘要，PUT 只发送签入 URL 的摘要请求头
+    const digest = (offset: number) =>
+      createHash("sha256").update(large.subarray(offset, offset + PART));
+    expect(requester.post).toHaveBeenCalledWith(
+      "http://localhost/api/multipart/sign",
+      expect.objectContaining({
+        partNumber: 1,
+        algorithm: "SHA-256",
+        checksum: digest(0).digest("hex"),
+      }),
+      { Authorization: "Bearer t" },
+      expect.any(AbortSignal)
+    );
+    expect(requester.request).toHaveBeenCalledTimes(3);
+    expect(requester.request).toHaveBeenCalledWith(
+      "PUT",
+      expect.stringMatching(/^http:\/\/s3\.local\/bucket\/uploads%2Ff\?/),
+      expect.objectContaining({
+        headers: { "x-amz-checksum-sha256": digest(0).digest("base64") },
+      })
+    );
+    expect(requester.post).toHaveBeenLastCalledWith(
+      "http://localhost/api/multipart/complete",
+      {
+        fileId: "f",
+        uploadId: expect.any(String),
+        parts: [1, 2, 3].map((partNumber) => ({
+          partNumber,
+          etag: expect.stringMatching(/^"[0-9a-f]{32}"$/),
+        })),
+        metadata: { projectId: "1" },
+      },
+      { Authorization: "Bearer t" }
+    );
+  });
+
+  it("should upload an empty file as a single empty part", async () => {
+    const { store, requester } = createS3();
+    const uploader = createUploader(requester, { checksum: "SHA-256" });
+
+    await expect(uploader.upload(new Blob([]))).resolves.toEqual({
+      fileId: "f",
+      savedPath: "http://s3.local/bucket/uploads%2Ff",
+      metadata: {},
+    });
+    expect(store.getObject("uploads/f")?.data).toHaveLength(0);
+    expect(requester.request).toHaveBeenCalledTimes(1);
+    expect(requester.post).toHaveBeenLastCalledWith(
+      "http://localhost/api/multipart/complete",
+      expect.objectContaining({
+        parts: [{ partNumber: 1, etag: expect.any(String) }],
+      }),
+      {}
+    );
+  });
+
+  it("should resume with the parts already in object storage", async () => {
+    const { store, requester } = createS3();
+    const { uploadId } = await new MultipartService({ store }).create({
+      fileId: "f",
+      size: large.length,
+    });
+    const presigned = await store.presignUploadPart("uploads/f", uploadId, 2);
+    await store.putPart(presigned.url, {}, large.subarray(PART, 2 * PART));
+
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.set({
+      fileId: "f",
+      size: large.length,
+      parts: [],
+      metadata: {},
+      uploadId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const uploader = createUploader(requester, { sessionStore });
+
+    await uploader.upload(new Blob([large]));
+
+    expect(
+      requester.post.mock.calls
+        .filter(([url]) => url.endsWith("/sign"))
+        .map(([, body]) => body.partNumber)
+        .sort()
+    ).toEqual([1, 3]);
+    expect(sha256(store.getObject("uploads/f")?.data)).toBe(sha256(large));
+  });
+
+  it("should upload parts without ETags again when the status query fails", async () => {
+    const { store, requester } = createS3();
+    const { uploadId } = await new MultipartService({ store }).create({
+      fileId: "f",
+      size: large.length,
+    });
+    const presigned = await store.presignUploadPart("uploads/f", uploadId, 1);
+    await store.putPart(presigned.url, {}, large.subarray(0, PART));
+    requester.get.mockRejectedValue(new Error("offline"));
+
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.set({
+      fileId: "f",
+      size: large.length,
+      parts: [{ offset: 0, length: PART }],
+      metadata: {},
+      uploadId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const uploader = createUploader(requester, { sessionStore, retry: 2 });
+    const corrupted = vi.fn();
+    uploader.on("corrupted", corrupted);
+
+    await uploader.upload(new Blob([large]));
+
+    expect(corrupted).toHaveBeenCalledWith("f", [0]);
+    expect(sha256(store.getObject("uploads/f")?.data)).toBe(sha256(large));
+  });
+
+  it("should retry a part rejected with BadDigest", async () => {
+    const { store, requester } = createS3();
+    const put = requester.request.getMockImplementation()!;
+    // 第一次 PUT 的数据在传输中损坏
+    requester.request.mockImplementationOnce((method, url, options = {}) =>
+      put(method, url, { ...options, body: new Blob([new Uint8Array(PART)]) })
+    );
+    const uploader = createUploader(requester, {
+      checksum: "SHA-256",
+      concurrency: 1,
+    });
+    const retry = vi.fn();
+    uploader.on("retry", retry);
+
+    await uploader.upload(new Blob([large]));
+
+    expect(retry).toHaveBeenCalledWith("f", 0, 1, expect.any(Error));
+    expect(sha256(store.getObject("uploads/f")?.data)).toBe(sha256(large));
+  });
+
+  it("should abort the multipart upload when canceled with discard", async () => {
+    const { store, requester } = createS3();
+    requester.request.mockImplementation(
+      (_method, _url, options = {}) =>
+        new Promise((_, reject) =>
+          options.signal?.addEventListener("abort", () =>
+            reject(new Error("Aborted"))
+          )
+        )
+    );
+    const uploader = createUploader(requester);
+
+    const result = uploader.upload(new Blob([large]));
+    result.catch(() => {});
+    await vi.waitFor(() => expect(requester.request).toHaveBeenCalled());
+    await uploader.cancel("f", { discard: true });
+
+    await expect(result).rejects.toThrow("Upload Cancelled");
+    const [, { uploadId }] = requester.post.mock.calls.find(([url]) =>
+      url.endsWith("/sign")
+    )!;
+    expect(requester.post).toHaveBeenLastCalledWith(
+      "http://localhost/api/multipart/abort",
+      { fileId: "f", uploadId },
+      {}
+    );
+    expect(await store.listParts("uploads/f", uploadId)).toBeNull();
+  });
+
+  it("should reject a chunk size below the S3 minimum part size", () => {
+    const { requester } = createS3();
+    expect(() => createUploader(requester, { chunkSize: PART - 1 })).toThrow(
+      `s3 requires a chunkSize of at least ${PART}`
+    );
+  });
+
+  it("should not allow adaptive chunk size", () => {
+    const { requester } = createS3();
+    expect(() =>
+      createUploader(requester, { adaptiveChunkSize: true })
+    ).toThrow("adaptiveChunkSize is not supported by s3");
+  });
+});
+
+describe("MemoryObjectStore", () => {
+  it("should reject tampered or expired presigned URLs", async () => {
+    const store = new MemoryObjectStore({
+      baseUrl: "http://s3.local/bucket",
+      expiresIn: 60,
+    });
+    const uploadId = await store.createMultipartUpload("a", {});
+    const { url } = await store.presignUploadPart("a", uploadId, 1);
+
+    const tampered = url.replace("partNumber=1", "partNumber=2");
+    await expect(store.putPart(tampered, {}, data)).rejects.toMatchObject({
+      code: "SignatureDoesNotMatch",
+      status: 403,
+    });
+
+    vi.useFakeTimers({ now: Date.now() + 61_000 });
+    try {
+      await expect(store.putPart(url, {}, data)).rejects.toMatchObject({
+        code: "AccessDenied",
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should only complete parts in ascending order above the minimum size", async () => {
+    const store = new MemoryObjectStore({
+      baseUrl: "http://s3.local/bucket",
+      minPartSize: 4,
+    });
+    const uploadId = await store.createMultipartUpload("a", {});
+    const etags: string[] = [];
+    for (const [partNumber, part] of [
+      data.subarray(0, 3),
+      data.subarray(3),
+    ].entries()) {
+      const { url } = await store.presignUploadPart(
+        "a",
+        uploadId,
+        partNumber + 1
+      );
+      etags.push(await store.putPart(url, {}, part));
+    }
+    const parts = etags.map((etag, i) => ({ partNumber: i + 1, etag }));
+
+    await expect(
+      store.completeMultipartUpload("a", uploadId, [...parts].reverse())
+    ).rejects.toMatchObject({ code: "InvalidPartOrder" });
+    await expect(
+      store.completeMultipartUpload("a", uploadId, parts)
+    ).rejects.toMatchObject({ code: "EntityTooSmall" });
+    await expect(
+      store.completeMultipartUpload("a", uploadId, [
+        { partNumber: 2, etag: '"0"' },
+      ])
+    ).rejects.toMatchObject({ code: "InvalidPart" });
+  });
+});
@@ -0,0 +1,45 @@
+import { createHash } from "node:crypto";
+import { describe, it, expect, vi } from "vitest";
+import { Sha256 } from "../src/common/Sha256";
+import { hashFile } from "../src/common/hashFile";
+
+const sha256 = (data: Uint8Array) =>
+  createHash("sha256").update(data).digest("hex");
+
+describe("Sha256", () => {
+  it("should match node:crypto across block boundaries", () => {
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 1000]) {
+      const data = Uint8Array.from({ length }, (_, i) => i % 251);
+      expect(new Sha256().update(data).digest()).toBe(sha256(data));
+    }
+  });
+
+  it("should hash incremental updates the same as a single update", () => {
+    const data = Uint8Array.from({ length: 300 }, (_, i) => i % 7);
+    const hash = new Sha256();
+    hash.update(data.subarray(0, 1));
+    hash.update(data.subarray(1, 64));
+    hash.update(data.subarray(64, 66));
+    hash.update(data.subarray(66));
+    expect(hash.digest()).toBe(sha256(data));
+  });
+});
+
+describe("hashFile", () => {
+  it("should hash the whole file in slices and report progress", async () => {
+    const data = Uint8Array.from({ length: 10 }, (_, i) => i);
+    const onProgress = vi.fn();
+
+    await expect(
+      hashFile(new Blob([data]), { sliceSize: 4, onProgress })
+    ).resolves.toBe(sha256(data));
+    expect(onProgress.mock.calls.map(([progress]) => progress.loaded)).toEqual([
+      4, 8, 10,
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      loaded: 10,
+      total: 10,
+      percent: 100,
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { SpeedMeter } from "../src/common/SpeedMeter";
+
+describe("SpeedMeter", () => {
+  it("should measure bytes per second over the sliding window", () => {
+    const meter = new SpeedMeter(1000);
+    meter.reset(0);
+    expect(meter.speed).toBe(0);
+
+    meter.record(500, 500);
+    expect(meter.speed).toBe(1000);
+
+    // 窗口外的旧样本被丢弃，只统计最近一秒
+    meter.record(100, 1500);
+    meter.record(100, 2500);
+    expect(meter.speed).toBe(100);
+  });
+});
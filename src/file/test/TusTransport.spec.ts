@@ -0,0 +1,218 @@
+import { createHash } from "node:crypto";
+import { describe, it, expect, vi } from "vitest";
+import { BigUploader } from "../src/browser/BigUploaderBrowser";
+import { HttpError } from "../src/common/errors";
+import type { RawRequestOptions, Requester } from "../src/common/type";
+import { MemorySessionStore } from "../src/session/MemorySessionStore";
+
+const data = Uint8Array.from({ length: 10 }, (_, i) => i);
+
+// 内存中的 tus 服务端：上传地址 -> 已接收的数据
+function createTusServer(uploads = new Map<string, number[]>()) {
+  let nextId = 1;
+  const request = vi.fn(
+    async (
+      method: string,
+      url: string,
+      { headers = {}, body }: RawRequestOptions = {}
+    ) => {
+      const respond = (
+        status: number,
+        headers: Record<string, string> = {}
+      ) => ({ status, headers, body: "" });
+      if (headers["Tus-Resumable"] !== "1.0.0") return respond(412);
+
+      if (method === "POST") {
+        const location = `/files/${nextId++}`;
+        uploads.set(new URL(location, url).href, []);
+        return respond(201, { location });
+      }
+
+      const received = uploads.get(url);
+      if (!received) throw new HttpError(url, 404, "Not Found");
+      if (method === "HEAD") {
+        return respond(200, { "upload-offset": String(received.length) });
+      }
+      if (method === "DELETE") {
+        uploads.delete(url);
+        return respond(204);
+      }
+
+      // PATCH
+      if (Number(headers["Upload-Offset"]) !== received.length) {
+        throw new HttpError(url, 409, "Conflict");
+      }
+      received.push(...new Uint8Array(await (body as Blob).arrayBuffer()));
+      return respond(204, { "upload-offset": String(received.length) });
+    }
+  );
+
+  const requester = {
+    get: vi.fn(async (): Promise<any> => ({})),
+    post: vi.fn(async (): Promise<any> => ({})),
+    uploadChunk: vi.fn(async (): Promise<any> => ({})),
+    request,
+  } satisfies Requester;
+  return { requester, uploads };
+}
+
+function createUploader(requester: Requester, options = {}) {
+  return new BigUploader({
+    endpoint: "http://localhost/files",
+    protocol: "tus",
+    chunkSize: 4,
+    concurrency: 3,
+    computeHash: async () => "f",
+    checksum: null,
+    requester,
+    ...options,
+  });
+}
+
+describe("BigUploader tus protocol", () => {
+  it("should create an upload and PATCH chunks in order", async () => {
+    const { requester, uploads } = createTusServer();
+    const uploader = createUploader(requester, { checksum: "SHA-256" });
+
+    await expect(
+      uploader.upload(new Blob([data]), { projectId: "1" })
+    ).resolves.toEqual({
+      fileId: "f",
+      savedPath: "http://localhost/files/1",
+      metadata: { projectId: "1" },
+    });
+
+    const [create, ...patches] = requester.request.mock.calls;
+    expect(create).toEqual([
+      "POST",
+      "http://localhost/files",
+      expect.objectContaining({
+        headers: {
+          "Tus-Resumable": "1.0.0",
+          "Upload-Length": "10",
+          // projectId "1"，fileId "f"
+          "Upload-Metadata": "projectId MQ==,fileId Zg==",
+        },
+      }),
+    ]);
+    // 即使 concurrency 大于 1，同一文件的分片也依次上传
+    expect(
+      patches.map(([method, , options]) => [method, options?.headers])
+    ).toEqual(
+      [0, 4, 8].map((offset) => [
+        "PATCH",
+        {
+          "Tus-Resumable": "1.0.0",
+          "Upload-Offset": String(offset),
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Checksum": `sha256 ${createHash("sha256")
+            .update(data.subarray(offset, offset + 4))
+            .digest("base64")}`,
+        },
+      ])
+    );
+    expect(uploads.get("http://localhost/files/1")).toEqual([...data]);
+  });
+
+  it("should resume from the offset reported by HEAD", async () => {
+    const url = "http://localhost/files/9";
+    const { requester, uploads } = createTusServer(
+      new Map([[url, [...data.subarray(0, 6)]]])
+    );
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.set({
+      fileId: "f",
+      size: 10,
+      parts: [],
+      metadata: {},
+      uploadId: url,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const uploader = createUploader(requester, { sessionStore });
+
+    await uploader.upload(new Blob([data]));
+
+    expect(requester.request.mock.calls.map(([method]) => method)).toEqual([
+      "HEAD",
+      "PATCH",
+    ]);
+    expect(requester.request).toHaveBeenLastCalledWith(
+      "PATCH",
+      url,
+      expect.objectContaining({
+        headers: expect.objectContaining({ "Upload-Offset": "6" }),
+      })
+    );
+    expect(uploads.get(url)).toEqual([...data]);
+  });
+
+  it("should create a new upload when the recorded one has expired", async () => {
+    const { requester } = createTusServer();
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.set({
+      fileId: "f",
+      size: 10,
+      parts: [{ offset: 0, length: 4 }],
+      metadata: {},
+      uploadId: "http://localhost/files/gone",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const uploader = createUploader(requester, { sessionStore });
+
+    await expect(uploader.upload(new Blob([data]))).resolves.toMatchObject({
+      savedPath: "http://localhost/files/1",
+    });
+    expect(requester.request.mock.calls.map(([method]) => method)).toEqual([
+      "HEAD",
+      "POST",
+      "PATCH",
+      "PATCH",
+      "PATCH",
+    ]);
+  });
+
+  it("should terminate the upload when canceled with discard", async () => {
+    const { requester, uploads } = createTusServer();
+    const request = requester.request.getMockImplementation()!;
+    requester.request.mockImplementation((method, url, options = {}) =>
+      method === "PATCH"
+        ? new Promise((_, reject) =>
+            options.signal?.addEventListener("abort", () =>
+              reject(new Error("Aborted"))
+            )
+          )
+        : request(method, url, options)
+    );
+    const uploader = createUploader(requester);
+
+    const result = uploader.upload(new Blob([data]));
+    result.catch(() => {});
+    await vi.waitFor(() =>
+      expect(requester.request).toHaveBeenCalledWith(
+        "PATCH",
+        "http://localhost/files/1",
+        expect.anything()
+      )
+    );
+    await uploader.cancel("f", { discard: true });
+
+    await expect(result).rejects.toThrow("Upload Cancelled");
+    expect(requester.request).toHaveBeenLastCalledWith(
+      "DELETE",
+      "http://localhost/files/1",
+      expect.anything()
+    );
+    expect(uploads.size).toBe(0);
+  });
+
+  it("should require a Requester that implements request()", () => {
+    const { requester } = createTusServer();
+    const { request: _, ...basic } = requester;
+
+    expect(() => createUploader(basic)).toThrow(
+      "tus requires a Requester that implements request()"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  insertRange,
+  missingRanges,
+  selectParts,
+  splitRanges,
+} from "../src/common/ranges";
+
+describe("ranges", () => {
+  it("should drop overlapping and out-of-bounds parts", () => {
+    const parts = selectParts(
+      [
+        { offset: 6, length: 2 },
+        { offset: 0, length: 3 },
+        { offset: 2, length: 4 },
+        { offset: 8, length: 4 },
+      ],
+      10
+    );
+    expect(parts).toEqual([
+      { start: 0, end: 3 },
+      { start: 6, end: 8 },
+    ]);
+    expect(missingRanges(parts, 10)).toEqual([
+      { start: 3, end: 6 },
+      { start: 8, end: 10 },
+    ]);
+  });
+
+  it("should merge inserted ranges with their neighbours", () => {
+    const ranges = [
+      { start: 0, end: 2 },
+      { start: 6, end: 8 },
+    ];
+    insertRange(ranges, { start: 4, end: 6 });
+    expect(ranges).toEqual([
+      { start: 0, end: 2 },
+      { start: 4, end: 8 },
+    ]);
+    insertRange(ranges, { start: 2, end: 4 });
+    expect(ranges).toEqual([{ start: 0, end: 8 }]);
+  });
+
+  it("should split ranges into fixed-size pieces", () => {
+    expect(splitRanges([{ start: 3, end: 8 }], 2)).toEqual([
+      { start: 3, end: 5 },
+      { start: 5, end: 7 },
+      { start: 7, end: 8 },
+    ]);
+  });
+});
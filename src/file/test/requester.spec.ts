@@ -0,0 +1,187 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { BrowserRequester } from "../src/browser/api/requester";
+import { XhrRequester } from "../src/browser/api/xhrRequester";
+import {
+  AbortError,
+  HttpError,
+  ProtocolError,
+  RequestError,
+  TimeoutError,
+  isRetryableError,
+} from "../src/common/errors";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("BrowserRequester", () => {
+  const stubFetch = (status: number, text: string) =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(text, { status }))
+    );
+
+  it("should throw HttpError with the parsed body for non-2xx responses", async () => {
+    stubFetch(422, '{"success":false,"index":1}');
+    const error = await new BrowserRequester()
+      .post("/api/merge", {})
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 422,
+      url: "/api/merge",
+      body: { success: false, index: 1 },
+    });
+  });
+
+  it("should keep the raw text of non-JSON error pages", async () => {
+    stubFetch(500, "<html>Internal Server Error</html>");
+    await expect(
+      new BrowserRequester().get("/api/status")
+    ).rejects.toMatchObject({
+      name: "HttpError",
+      status: 500,
+      body: "<html>Internal Server Error</html>",
+    });
+  });
+
+  it("should throw ProtocolError for invalid JSON in a 2xx response", async () => {
+    stubFetch(200, "<html></html>");
+    await expect(
+      new BrowserRequester().get("/api/status")
+    ).rejects.toBeInstanceOf(ProtocolError);
+  });
+
+  it("should distinguish timeouts, aborts and network errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        init.signal?.throwIfAborted();
+        throw new TypeError("Failed to fetch");
+      })
+    );
+    const requester = new BrowserRequester();
+
+    const timeout = new AbortController();
+    timeout.abort(new TimeoutError("/api/status", 100));
+    await expect(
+      requester.get("/api/status", timeout.signal)
+    ).rejects.toBeInstanceOf(TimeoutError);
+
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(
+      requester.get("/api/status", aborted.signal)
+    ).rejects.toBeInstanceOf(AbortError);
+
+    const error = await requester.get("/api/status").catch((error) => error);
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+});
+
+describe("XhrRequester", () => {
+  // 只实现 XhrRequester 用到的部分
+  class FakeXhr {
+    static last: FakeXhr;
+    upload: { onprogress: ((event: any) => void) | null } = {
+      onprogress: null,
+    };
+    status = 0;
+    responseText = "";
+    method = "";
+    url = "";
+    headers: Record<string, string> = {};
+    body: any;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onabort: (() => void) | null = null;
+
+    open(method: string, url: string) {
+      this.method = method;
+      this.url = url;
+    }
+    setRequestHeader(name: string, value: string) {
+      this.headers[name] = value;
+    }
+    getAllResponseHeaders() {
+      return "upload-offset: 4\r\nLocation: /files/1\r\n";
+    }
+    send(body: any) {
+      this.body = body;
+      FakeXhr.last = this;
+    }
+    abort() {
+      this.onabort?.();
+    }
+    respond(status: number, text: string) {
+      this.status = status;
+      this.responseText = text;
+      this.onload?.();
+    }
+  }
+
+  it("should report upload progress and resolve the JSON response", async () => {
+    vi.stubGlobal("XMLHttpRequest", FakeXhr);
+    const onProgress = vi.fn();
+    const chunk = new Blob(["abcd"]);
+
+    const result = new XhrRequester().uploadChunk(
+      "/api/upload?offset=0&length=4",
+      chunk,
+      { "X-Chunk-Checksum": "x" },
+      undefined,
+      onProgress
+    );
+    const xhr = FakeXhr.last;
+    expect(xhr).toMatchObject({
+      method: "POST",
+      url: "/api/upload?offset=0&length=4",
+      headers: { "X-Chunk-Checksum": "x" },
+      body: chunk,
+    });
+
+    xhr.upload.onprogress!({ loaded: 2, total: 4 });
+    xhr.respond(200, '{"success":true}');
+
+    await expect(result).resolves.toEqual({ success: true });
+    expect(onProgress).toHaveBeenCalledWith(2, 4);
+  });
+
+  it("should map HTTP errors and aborts to typed errors", async () => {
+    vi.stubGlobal("XMLHttpRequest", FakeXhr);
+    const requester = new XhrRequester();
+
+    const failed = requester.post("/api/merge", { fileId: "f" });
+    expect(FakeXhr.last.headers["Content-Type"]).toBe("application/json");
+    FakeXhr.last.respond(400, '{"error":"fileId & parts required"}');
+    await expect(failed).rejects.toMatchObject({
+      name: "HttpError",
+      status: 400,
+      body: { error: "fileId & parts required" },
+    });
+
+    const controller = new AbortController();
+    const aborted = requester.get("/api/status", controller.signal);
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("should retry transient failures only", () => {
+    expect(isRetryableError(new HttpError("/u", 503, ""))).toBe(true);
+    expect(isRetryableError(new HttpError("/u", 429, ""))).toBe(true);
+    expect(isRetryableError(new HttpError("/u", 422, { success: false }))).toBe(
+      true
+    );
+    expect(isRetryableError(new TimeoutError("/u", 100))).toBe(true);
+    expect(isRetryableError(new RequestError("Network", "/u"))).toBe(true);
+
+    expect(isRetryableError(new HttpError("/u", 400, {}))).toBe(false);
+    expect(isRetryableError(new HttpError("/u", 413, {}))).toBe(false);
+    expect(isRetryableError(new AbortError("/u"))).toBe(false);
+    expect(isRetryableError(new ProtocolError("/u", "Invalid"))).toBe(false);
+  });
+});
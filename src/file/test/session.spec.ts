@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSessionStore } from "../src/session/FileSessionStore";
+import { LocalStorageSessionStore } from "../src/session/LocalStorageSessionStore";
+import { MemorySessionStore } from "../src/session/MemorySessionStore";
+import type { UploadSession } from "../src/session/type";
+
+const session = (fileId: string): UploadSession => ({
+  fileId,
+  fileName: "a.bin",
+  size: 10,
+  parts: [
+    { offset: 0, length: 2 },
+    { offset: 2, length: 2 },
+  ],
+  metadata: { projectId: "1" },
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// 用 Map 模拟 Storage 接口
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+describe("MemorySessionStore", () => {
+  it("should store copies of sessions", async () => {
+    const store = new MemorySessionStore();
+    const a = session("a");
+    await store.set(a);
+    a.parts.push({ offset: 4, length: 2 });
+
+    expect(await store.get("a")).toEqual(session("a"));
+    expect(await store.get("b")).toBeNull();
+    await store.delete("a");
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe("FileSessionStore", () => {
+  it("should persist all sessions in one JSON file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "session-"));
+    const path = join(dir, "sessions.json");
+    try {
+      const store = new FileSessionStore(path);
+      expect(await store.list()).toEqual([]);
+      await Promise.all([store.set(session("a")), store.set(session("b"))]);
+      await store.delete("a");
+
+      expect(JSON.parse(await readFile(path, "utf8"))).toEqual([session("b")]);
+      // 新实例从文件中读取
+      expect(await new FileSessionStore(path).get("b")).toEqual(session("b"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("LocalStorageSessionStore", () => {
+  it("should store each session under a prefixed key", async () => {
+    const storage = createStorage();
+    storage.setItem("other", "1");
+    const store = new LocalStorageSessionStore("uploads:", storage);
+
+    await store.set(session("a"));
+    await store.set(session("b"));
+    expect(JSON.parse(storage.getItem("uploads:a")!)).toEqual(session("a"));
+    expect(await store.list()).toEqual([session("a"), session("b")]);
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeNull();
+    expect(storage.length).toBe(2);
+  });
+});
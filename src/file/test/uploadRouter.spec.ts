@@ -0,0 +1,569 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import express from "express";
+import request from "supertest";
+import { afterEach, describe, it, expect } from "vitest";
+import { BigUploader } from "../src/browser/BigUploaderBrowser";
+import { BigUploaderNode } from "../src/node/BigUploaderNode";
+import { MemoryObjectStore } from "../src/node/multipart/MemoryObjectStore";
+import { createUploadRouter } from "../src/node/server/createUploadRouter";
+import { FileUploadStorage } from "../src/node/server/FileUploadStorage";
+import { MemoryUploadStorage } from "../src/node/server/MemoryUploadStorage";
+import { startServer } from "../src/node/server/startServer";
+import type { UploadRouterOptions } from "../src/node/server/type";
+
+const sha256 = (data: Uint8Array | string) =>
+  createHash("sha256").update(data).digest("hex");
+
+const data = Buffer.from(Array.from({ length: 10 }, (_, i) => i));
+
+function createApp(options: UploadRouterOptions = {}) {
+  const storage = new MemoryUploadStorage();
+  const app = express();
+  app.use(createUploadRouter({ basePath: "/api", storage, ...options }));
+  return { app, storage };
+}
+
+const upload = (app: express.Express, offset: number, length = 4) =>
+  request(app)
+    .post(`/api/upload?fileId=f&offset=${offset}&length=${length}`)
+    .set("Content-Type", "application/octet-stream")
+    .send(data.subarray(offset, offset + length));
+
+describe("createUploadRouter", () => {
+  it("should store chunks, merge them and serve instant uploads", async () => {
+    const { app } = createApp();
+
+    await request(app).get("/api/status?fileId=f").expect(200, { parts: [] });
+    await upload(app, 0).expect(200, { success: true });
+    await upload(app, 4, 6).expect(200, { success: true });
+    await request(app)
+      .get("/api/status?fileId=f")
+      .expect(200, {
+        parts: [
+          { offset: 0, length: 4 },
+          { offset: 4, length: 6 },
+        ],
+      });
+
+    const parts = [
+      { offset: 0, length: 4, digest: sha256(data.subarray(0, 4)) },
+      { offset: 4, length: 6, digest: sha256(data.subarray(4)) },
+    ];
+    await request(app)
+      .post("/api/merge")
+      .send({
+        fileId: "f",
+        size: 10,
+        parts,
+        metadata: { projectId: "1" },
+        algorithm: "SHA-256",
+        partsDigest: sha256(parts.map(({ digest }) => digest).join("")),
+        sha256: sha256(data),
+      })
+      .expect(200, {
+        success: true,
+        fileId: "f",
+        metadata: { projectId: "1" },
+        savedPath: "/api/merged/f.bin",
+      });
+
+    // 只有 sha256 与合并后的文件一致时才秒传
+    await request(app)
+      .get(`/api/status?fileId=f&sha256=${sha256("other")}`)
+      .expect(200, { parts: [] });
+    await request(app)
+      .get(`/api/status?fileId=f&sha256=${sha256(data)}`)
+      .expect(200, {
+        parts: [],
+        file: {
+          fileId: "f",
+          savedPath: "/api/merged/f.bin",
+          metadata: { projectId: "1" },
+        },
+      });
+    const merged = await request(app).get("/api/merged/f.bin").expect(200);
+    expect(merged.body).toEqual(data);
+  });
+
+  it("should reject invalid chunks and report corrupted parts on merge", async () => {
+    const { app, storage } = createApp();
+
+    await request(app)
+      .post("/api/upload?fileId=../etc&offset=0&length=4")
+      .set("Content-Type", "application/octet-stream")
+      .send(data.subarray(0, 4))
+      .expect(400);
+    for (const query of [
+      "offset=-4&length=4",
+      "offset=1.5&length=4",
+      "length=4",
+    ]) {
+      await request(app)
+        .post(`/api/upload?fileId=f&${query}`)
+        .set("Content-Type", "application/octet-stream")
+        .send(data.subarray(0, 4))
+        .expect(400, { error: "fileId, offset & length required" });
+    }
+    await request(app)
+      .post("/api/upload?fileId=f&offset=0&length=5")
+      .set("Content-Type", "application/octet-stream")
+      .send(data.subarray(0, 4))
+      .expect(422, {
+        success: false,
+        error: "Chunk length mismatch",
+        offset: 0,
+      });
+    await upload(app, 0)
+      .set("X-Chunk-Checksum", sha256("other"))
+      .expect(422, { success: false, error: "Checksum mismatch", offset: 0 });
+
+    await upload(app, 0);
+    await request(app)
+      .post("/api/merge")
+      .send({ fileId: "f", size: 10, parts: [{ offset: 0, length: 4 }] })
+      .expect(400, { error: "Missing range at 4" });
+
+    // 分片在存储中损坏：删除并让客户端重传
+    await upload(app, 4, 6);
+    await storage.writePart("f", 4, new Uint8Array(6));
+    await request(app)
+      .post("/api/merge")
+      .send({
+        fileId: "f",
+        size: 10,
+        algorithm: "SHA-256",
+        parts: [
+          { offset: 0, length: 4, digest: sha256(data.subarray(0, 4)) },
+          { offset: 4, length: 6, digest: sha256(data.subarray(4)) },
+        ],
+      })
+      .expect(422, {
+        success: false,
+        error: "Checksum mismatch",
+        corrupted: [4],
+      });
+    expect(await storage.listParts("f")).toEqual([{ offset: 0, length: 4 }]);
+
+    // 合并后文件内容的 sha256 与客户端不一致时不保存记录
+    await upload(app, 4, 6);
+    await request(app)
+      .post("/api/merge")
+      .send({
+        fileId: "f",
+        size: 10,
+        parts: [
+          { offset: 0, length: 4 },
+          { offset: 4, length: 6 },
+        ],
+        sha256: sha256("other"),
+      })
+      .expect(422, {
+        success: false,
+        error: "File digest mismatch",
+        corrupted: [],
+      });
+    expect(await storage.getFileRecord("f")).toBeNull();
+  });
+
+  it("should require a supported algorithm when digests are sent", async () => {
+    const { app } = createApp();
+
+    await upload(app, 0)
+      .set("X-Chunk-Checksum", sha256(data.subarray(0, 4)))
+      .set("X-Checksum-Algorithm", "MD5")
+      .expect(400, { error: "Unsupported checksum algorithm" });
+    await upload(app, 0);
+    await upload(app, 4, 6);
+
+    const parts = [
+      { offset: 0, length: 4, digest: sha256(data.subarray(0, 4)) },
+      { offset: 4, length: 6 },
+    ];
+    await request(app)
+      .post("/api/merge")
+      .send({ fileId: "f", size: 10, parts })
+      .expect(400, { error: "Unsupported checksum algorithm" });
+    await request(app)
+      .post("/api/merge")
+      .send({
+        fileId: "f",
+        size: 10,
+        parts: parts.slice(0, 1),
+        partsDigest: "x",
+      })
+      .expect(400, { error: "Unsupported checksum algorithm" });
+  });
+
+  it("should merge an empty file without chunks", async () => {
+    const { app } = createApp();
+
+    await request(app)
+      .post("/api/merge")
+      .send({ fileId: "e", size: 0, parts: [], sha256: sha256("") })
+      .expect(200, {
+        success: true,
+        fileId: "e",
+        savedPath: "/api/merged/e.bin",
+      });
+    await request(app)
+      .get("/api/merged/e.bin")
+      .expect(200)
+      .expect("Content-Length", "0");
+    await request(app)
+      .post("/api/merge")
+      .send({ fileId: "f", size: 10, parts: [] })
+      .expect(400, { error: "No uploaded chunks found" });
+  });
+
+  it("should apply the body size limit to chunks", async () => {
+    const { app } = createApp({ bodyLimit: 4 });
+
+    await upload(app, 0).expect(200);
+    await upload(app, 4, 6).expect(413);
+  });
+
+  it("should discard uploaded chunks", async () => {
+    const { app, storage } = createApp();
+
+    await upload(app, 0);
+    await request(app)
+      .post("/api/discard")
+      .send({ fileId: "f" })
+      .expect(200, { success: true });
+    expect(await storage.listParts("f")).toEqual([]);
+  });
+
+  it("should implement tus creation, offset discovery, checksum and termination", async () => {
+    const { app, storage } = createApp();
+    const tus = (req: request.Test) => req.set("Tus-Resumable", "1.0.0");
+
+    await request(app).post("/api/tus").expect(412);
+    await request(app)
+      .options("/api/tus")
+      .expect(204)
+      .expect("Tus-Extension", "creation,termination,checksum");
+
+    const created = await tus(request(app).post("/api/tus"))
+      .set("Upload-Length", "10")
+      .set("Upload-Metadata", `fileId ${Buffer.from("f").toString("base64")}`)
+      .expect(201);
+    const location: string = created.headers.location;
+    expect(location).toMatch(/^\/api\/tus\/[\w-]+$/);
+
+    const patch = (offset: number, body: Buffer) =>
+      tus(request(app).patch(location))
+        .set("Content-Type", "application/offset+octet-stream")
+        .set("Upload-Offset", String(offset))
+        .send(body);
+
+    await patch(0, data.subarray(0, 4))
+      .expect(204)
+      .expect("Upload-Offset", "4");
+    await patch(0, data.subarray(0, 4)).expect(409);
+    await patch(4, data.subarray(4))
+      .set(
+        "Upload-Checksum",
+        `sha256 ${createHash("sha256").update("x").digest("base64")}`
+      )
+      .expect(460);
+    await tus(request(app).head(location))
+      .expect(200)
+      .expect("Upload-Offset", "4")
+      .expect("Upload-Length", "10");
+    await patch(4, data.subarray(4))
+      .set(
+        "Upload-Checksum",
+        `sha256 ${createHash("sha256")
+          .update(data.subarray(4))
+          .digest("base64")}`
+      )
+      .expect(204)
+      .expect("Upload-Offset", "10")
+      .expect("Upload-Saved-Path", "/api/merged/f.bin");
+
+    // 最后一个 PATCH 完成上传：数据移动为合并后的文件并写入记录，可以下载与秒传
+    const id = location.split("/").pop()!;
+    expect(await storage.getTusUpload(id)).toEqual({
+      length: 10,
+      metadata: { fileId: "f" },
+      offset: 10,
+      fileId: "f",
+    });
+    const merged = await request(app).get("/api/merged/f.bin").expect(200);
+    expect(merged.body).toEqual(data);
+    await request(app)
+      .get(`/api/status?fileId=f&sha256=${sha256(data)}`)
+      .expect(200, {
+        parts: [],
+        file: { fileId: "f", savedPath: "/api/merged/f.bin", metadata: {} },
+      });
+    await tus(request(app).head(location))
+      .expect(200)
+      .expect("Upload-Offset", "10")
+      .expect("Upload-Saved-Path", "/api/merged/f.bin");
+
+    // 同名文件已存在时以上传 id 保存，不覆盖已完成的文件
+    const other = await tus(request(app).post("/api/tus"))
+      .set("Upload-Length", "5")
+      .set("Upload-Metadata", `fileId ${Buffer.from("f").toString("base64")}`)
+      .expect(201);
+    const otherId = other.headers.location.split("/").pop();
+    await tus(request(app).patch(other.headers.location))
+      .set("Content-Type", "application/offset+octet-stream")
+      .set("Upload-Offset", "0")
+      .send(Buffer.from("other"))
+      .expect(204)
+      .expect("Upload-Saved-Path", `/api/merged/${otherId}.bin`);
+    expect((await request(app).get("/api/merged/f.bin")).body).toEqual(data);
+
+    await tus(request(app).delete(location)).expect(204);
+    await tus(request(app).head(location)).expect(404);
+
+    // 空文件创建时即完成
+    await tus(request(app).post("/api/tus"))
+      .set("Upload-Length", "0")
+      .set("Upload-Metadata", `fileId ${Buffer.from("e").toString("base64")}`)
+      .expect(201)
+      .expect("Upload-Saved-Path", "/api/merged/e.bin");
+  });
+
+  it("should serialize concurrent tus PATCH requests for the same upload", async () => {
+    const { app, storage } = createApp();
+    // 追加变慢，两个请求都读到 offset 0 后再写入时会重复追加
+    const append = storage.appendTusUpload.bind(storage);
+    storage.appendTusUpload = async (id, chunk) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return append(id, chunk);
+    };
+    const tus = (req: request.Test) => req.set("Tus-Resumable", "1.0.0");
+    const created = await tus(request(app).post("/api/tus"))
+      .set("Upload-Length", "10")
+      .expect(201);
+    const patch = () =>
+      tus(request(app).patch(created.headers.location))
+        .set("Content-Type", "application/offset+octet-stream")
+        .set("Upload-Offset", "0")
+        .send(data.subarray(0, 4))
+        .then(({ status }) => status);
+
+    expect((await Promise.all([patch(), patch()])).sort()).toEqual([204, 409]);
+    await tus(request(app).head(created.headers.location)).expect(
+      "Upload-Offset",
+      "4"
+    );
+  });
+
+  it("should provide S3 multipart routes when an object store is configured", async () => {
+    const objectStore = new MemoryObjectStore({
+      baseUrl: "http://localhost/api/object-store",
+      minPartSize: 4,
+    });
+    const { app } = createApp({ objectStore });
+
+    const { body: created } = await request(app)
+      .post("/api/multipart/create")
+      .send({ fileId: "f", size: 10 })
+      .expect(200);
+    await request(app)
+      .get(`/api/multipart/parts?fileId=f&uploadId=missing`)
+      .expect(404);
+
+    const etags: string[] = [];
+    for (const [i, offset] of [0, 4, 8].entries()) {
+      const { body: presigned } = await request(app)
+        .post("/api/multipart/sign")
+        .send({ fileId: "f", uploadId: created.uploadId, partNumber: i + 1 })
+        .expect(200);
+      const { pathname, search } = new URL(presigned.url);
+      const res = await request(app)
+        .put(pathname + search)
+        .send(data.subarray(offset, offset + 4))
+        .expect(200);
+      etags.push(res.headers.etag);
+    }
+
+    await request(app)
+      .put("/api/object-store/uploads%2Ff?uploadId=x&partNumber=1")
+      .send(data)
+      .expect(403)
+      .expect(/<Code>SignatureDoesNotMatch<\/Code>/);
+    await request(app)
+      .post("/api/multipart/complete")
+      .send({
+        fileId: "f",
+        uploadId: created.uploadId,
+        parts: etags.map((etag, i) => ({ partNumber: i + 1, etag })),
+      })
+      .expect(200);
+    expect(objectStore.getObject("uploads/f")?.data).toEqual(
+      new Uint8Array(data)
+    );
+  });
+
+  it("should include the mount path in saved paths and tus locations", async () => {
+    const app = express();
+    app.use(
+      "/mount",
+      createUploadRouter({ storage: new MemoryUploadStorage() })
+    );
+
+    await request(app)
+      .post("/mount/upload?fileId=f&offset=0&length=10")
+      .send(data)
+      .expect(200);
+    await request(app)
+      .post("/mount/merge")
+      .send({ fileId: "f", size: 10, parts: [{ offset: 0, length: 10 }] })
+      .expect(200)
+      .expect(({ body }) => expect(body.savedPath).toBe("/mount/merged/f.bin"));
+    const merged = await request(app).get("/mount/merged/f.bin").expect(200);
+    expect(merged.body).toEqual(data);
+
+    const created = await request(app)
+      .post("/mount/tus")
+      .set("Tus-Resumable", "1.0.0")
+      .set("Upload-Length", "10")
+      .expect(201);
+    expect(created.headers.location).toMatch(/^\/mount\/tus\/[\w-]+$/);
+    await request(app)
+      .head(created.headers.location)
+      .set("Tus-Resumable", "1.0.0")
+      .expect(200);
+  });
+
+  it("should not mount the S3 routes without an object store", async () => {
+    const { app } = createApp();
+    await request(app).post("/api/multipart/create").send({}).expect(404);
+  });
+});
+
+describe("FileUploadStorage", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep parts, merged files and records on disk", async () => {
+    dir = await mkdtemp(join(tmpdir(), "upload-storage-"));
+    const storage = new FileUploadStorage({
+      uploadDir: join(dir, "uploads"),
+      mergeDir: join(dir, "merged"),
+    });
+
+    await storage.writePart("f", 4, data.subarray(4));
+    await storage.writePart("f", 0, data.subarray(0, 4));
+    expect(await storage.listParts("f")).toEqual([
+      { offset: 0, length: 4 },
+      { offset: 4, length: 6 },
+    ]);
+
+    await storage.mergeParts("f", await storage.listParts("f"));
+    await storage.deleteParts("f");
+    await storage.setFileRecord({
+      fileId: "f",
+      savedPath: "/merged/f.bin",
+      metadata: {},
+      size: 10,
+      sha256: sha256(data),
+    });
+    expect(await storage.listParts("f")).toEqual([]);
+    expect(await storage.getFileRecord("f")).toMatchObject({ size: 10 });
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of (await storage.readFile("f"))!) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks)).toEqual(data);
+
+    // 合并后的文件被截断时不再秒传
+    await writeFile(join(dir, "merged", "f.bin"), data.subarray(0, 4));
+    expect(await storage.getFileRecord("f")).toBeNull();
+  });
+});
+
+describe("startServer", () => {
+  let server: Server | undefined;
+  let dir: string;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should accept chunks from the browser BigUploader without a Content-Type", async () => {
+    dir = await mkdtemp(join(tmpdir(), "upload-server-"));
+    server = await startServer({
+      port: 0,
+      host: "127.0.0.1",
+      basePath: "/files",
+      storage: new MemoryUploadStorage(),
+    });
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // 默认的 BrowserRequester（fetch）以 Blob 发送分片，不带 Content-Type
+    const uploader = new BigUploader({
+      endpoint: `${origin}/files`,
+      chunkSize: 4,
+      hashMode: "full",
+    });
+    const result = await uploader.upload(new Blob([data]), { job: "1" });
+    expect(result).toMatchObject({ metadata: { job: "1" } });
+    const download = await fetch(`${origin}${result.savedPath}`);
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(data);
+  });
+
+  it("should serve BigUploaderNode over both protocols", async () => {
+    dir = await mkdtemp(join(tmpdir(), "upload-server-"));
+    server = await startServer({
+      port: 0,
+      host: "127.0.0.1",
+      basePath: "/files",
+      storage: new FileUploadStorage({
+        uploadDir: join(dir, "uploads"),
+        mergeDir: join(dir, "merged"),
+      }),
+    });
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const path = join(dir, "file.bin");
+    await writeFile(path, data);
+
+    const uploader = new BigUploaderNode({
+      endpoint: `${origin}/files`,
+      chunkSize: 4,
+    });
+    const result = await uploader.upload(path, { job: "1" });
+    expect(result.savedPath).toBe(`/files/merged/${result.fileId}.bin`);
+    const download = await fetch(`${origin}${result.savedPath}`);
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(data);
+
+    // 同一文件再次上传时秒传
+    await expect(uploader.upload(path)).resolves.toMatchObject({
+      instant: true,
+    });
+
+    // 空文件没有分片，直接合并
+    const empty = join(dir, "empty.bin");
+    await writeFile(empty, "");
+    const { savedPath } = await uploader.upload(empty);
+    const downloaded = await fetch(`${origin}${savedPath}`);
+    expect((await downloaded.arrayBuffer()).byteLength).toBe(0);
+
+    const tus = new BigUploaderNode({
+      endpoint: `${origin}/files/tus`,
+      protocol: "tus",
+      chunkSize: 4,
+    });
+    // tus 上传完成后同样合并为 /merged 下的文件，已有同名文件时以上传 id 保存
+    const tusResult = await tus.upload(path);
+    expect(tusResult.savedPath).toMatch(/^\/files\/merged\/[\w-]+\.bin$/);
+    expect(tusResult.savedPath).not.toBe(result.savedPath);
+    const tusDownload = await fetch(`${origin}${tusResult.savedPath}`);
+    expect(Buffer.from(await tusDownload.arrayBuffer())).toEqual(data);
+  });
+});